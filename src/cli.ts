@@ -0,0 +1,367 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    Note,
+    NoteStatus,
+    STATUS_CONFIG,
+    configureNoteTypes,
+    getAbsolutePath,
+    getCategoryConfig,
+    getPriorityConfig
+} from './utils';
+import { parseNotes } from './notesFormat';
+import { createNotesBackend } from './storageBackend';
+import { NoteFilter, matchesFilter, describeFilter } from './noteQuery';
+import {
+    ExportFormat,
+    EXPORT_FORMATS,
+    renderMarkdown,
+    renderHtml,
+    renderJson,
+    renderCsv,
+    renderSarif,
+    summarizeNotes,
+    countNotes
+} from './exportFormats';
+import { TemplateError, renderTemplate, buildTemplateContext, isHtmlTemplate } from './exportTemplate';
+import { loadSourceExcerpts } from './sourceExcerpts';
+
+const USAGE = `Usage: review-notes <command> [options]
+
+Commands:
+  list                 List notes with their location, category, priority, status and author
+  export               Write a report (--format md|html|json|csv|sarif or --template <file>,
+                       --output <file>)
+  stats                Count notes by status, priority, category and file
+  check                Exit with code 1 if open notes match the filters
+                       (by default: open high-priority bugs)
+
+Options:
+  --root <dir>         Folder holding .notes.json or .notes/ (default: current directory)
+  --category <ids>     Only notes in these categories, comma-separated
+  --priority <ids>     Only notes with these priorities, comma-separated
+  --status <ids>       Only notes with these statuses: open, resolved, wontfix
+  --author <names>     Only notes by these authors, comma-separated
+  --file <paths>       Only notes on these files or under these folders
+  --text <query>       Only notes whose text or replies contain the query
+  --format <format>    Export format: md, html, json, csv or sarif
+  --template <file>    Export with a template file instead of a format
+  --excerpts <lines>   Show the source lines of each note in md and html exports,
+                       with this many lines of context around them
+  --output <file>      Write the export to a file instead of standard output
+  --help               Show this help
+`;
+
+/**
+ * Where the CLI writes its output, so it can be captured in tests
+ */
+export interface CliOutput {
+    out(text: string): void;
+    err(text: string): void;
+}
+
+const processOutput: CliOutput = {
+    out: text => process.stdout.write(text),
+    err: text => process.stderr.write(text),
+};
+
+/**
+ * Invalid command line, reported along with the usage text
+ */
+class UsageError extends Error {}
+
+interface CliOptions {
+    command?: string;
+    root: string;
+    filter: NoteFilter;
+    files: string[];
+    format?: string;
+    template?: string;
+    excerpts?: number;
+    output?: string;
+    help: boolean;
+}
+
+/**
+ * Parse arguments such as `list --category bug,todo --root=../app`
+ */
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = { root: process.cwd(), filter: {}, files: [], help: false };
+    const list = (value: string) => value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith('--')) {
+            if (options.command) {
+                throw new UsageError(`Unexpected argument: ${arg}`);
+            }
+            options.command = arg;
+            continue;
+        }
+
+        const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+        if (name === 'help') {
+            options.help = true;
+            continue;
+        }
+
+        const value = inlineValue ?? args[++i];
+        if (value === undefined) {
+            throw new UsageError(`Missing value for --${name}`);
+        }
+
+        switch (name) {
+            case 'root': options.root = path.resolve(value); break;
+            case 'category': options.filter.categories = [...options.filter.categories ?? [], ...list(value)]; break;
+            case 'priority': options.filter.priorities = [...options.filter.priorities ?? [], ...list(value)]; break;
+            case 'author': options.filter.authors = [...options.filter.authors ?? [], ...list(value)]; break;
+            case 'status': options.filter.statuses = [...options.filter.statuses ?? [], ...list(value) as NoteStatus[]]; break;
+            case 'file': options.files.push(...list(value)); break;
+            case 'text': options.filter.text = value; break;
+            case 'format': options.format = value; break;
+            case 'template': options.template = value; break;
+            case 'excerpts': options.excerpts = Number(value); break;
+            case 'output': options.output = value; break;
+            default: throw new UsageError(`Unknown option: --${name}`);
+        }
+    }
+
+    if (options.excerpts !== undefined && !(Number.isInteger(options.excerpts) && options.excerpts >= 0)) {
+        throw new UsageError('--excerpts must be a number of lines');
+    }
+
+    for (const status of options.filter.statuses ?? []) {
+        if (!(status in STATUS_CONFIG)) {
+            throw new UsageError(`Unknown status: ${status}`);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Read the notes of a workspace folder, whichever storage layout it uses, warning about files that cannot be read.
+ * Categories and priorities defined in the notes are applied to labels.
+ */
+async function loadNotes(workspaceRoot: string, output: CliOutput): Promise<Map<string, Note[]>> {
+    const backend = createNotesBackend(workspaceRoot);
+    const content = await backend.read();
+    for (const [file, reason] of backend.unreadableFiles.entries()) {
+        output.err(`review-notes: skipping ${file}: ${reason}\n`);
+    }
+    if (content === undefined) {
+        return new Map();
+    }
+
+    const { notes, noteTypes } = parseNotes(content);
+    configureNoteTypes(noteTypes ? [noteTypes] : []);
+    return notes;
+}
+
+/**
+ * Normalize a file path given on the command line to the ./relative form used in notes
+ */
+function toNotePath(filePath: string, workspaceRoot: string): string {
+    const relative = path.isAbsolute(filePath) ? path.relative(workspaceRoot, filePath) : filePath;
+    const normalized = relative.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    return normalized === '.' ? '' : normalized;
+}
+
+/**
+ * Keep the notes that pass the filter and lie on one of the given files or folders
+ */
+function filterNotes(notes: Map<string, Note[]>, options: CliOptions): Map<string, Note[]> {
+    const files = options.files.map(file => toNotePath(file, options.root));
+    const filtered = new Map<string, Note[]>();
+
+    for (const [filePath, fileNotes] of notes.entries()) {
+        const notePath = toNotePath(filePath, options.root);
+        if (files.length > 0 && !files.some(file => file === '' || notePath === file || notePath.startsWith(`${file}/`))) {
+            continue;
+        }
+
+        const matching = fileNotes.filter(note => matchesFilter(note, options.filter));
+        if (matching.length > 0) {
+            filtered.set(filePath, matching);
+        }
+    }
+
+    return filtered;
+}
+
+/**
+ * One line per note: location, category, priority, status, author and the first line of text
+ */
+function formatNoteList(notes: Map<string, Note[]>): string {
+    const rows = Array.from(notes.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .flatMap(([filePath, fileNotes]) => [...fileNotes]
+            .sort((a, b) => a.line - b.line)
+            .map(note => [
+                `${filePath}:${note.line + 1}`,
+                getCategoryConfig(note.category).label,
+                getPriorityConfig(note.priority).label,
+                STATUS_CONFIG[note.status].label,
+                note.author,
+                note.text.split(/\r?\n/)[0],
+            ]));
+
+    // Align every column but the text
+    const widths = rows.reduce((max, row) => max.map((width, i) => Math.max(width, row[i].length)), [0, 0, 0, 0, 0]);
+    return rows.map(row => row.map((cell, i) => i < widths.length ? cell.padEnd(widths[i]) : cell).join('  ') + '\n').join('');
+}
+
+/**
+ * Counts per status, priority, category and file
+ */
+function formatStats(notes: Map<string, Note[]>): string {
+    const total = countNotes(notes);
+    const statusCounts = (Object.keys(STATUS_CONFIG) as NoteStatus[]).map(status => {
+        let count = 0;
+        for (const fileNotes of notes.values()) {
+            count += fileNotes.filter(note => note.status === status).length;
+        }
+        return `${count} ${STATUS_CONFIG[status].label.toLowerCase()}`;
+    });
+
+    const summary = summarizeNotes(notes);
+    const table = (title: string, rows: [string, number][]) => {
+        const width = Math.max(...rows.map(([label]) => label.length));
+        return `\n${title}\n` + rows.map(([label, count]) => `  ${label.padEnd(width)}  ${count}\n`).join('');
+    };
+
+    const files = Array.from(notes.entries())
+        .map(([filePath, fileNotes]): [string, number] => [filePath, fileNotes.length])
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+    let text = `${total} notes in ${notes.size} files (${statusCounts.join(', ')})\n`;
+    if (total === 0) {
+        return text;
+    }
+    text += table('Priority', summary.priorities.map(({ config, count }) => [`${config.icon} ${config.label}`, count]));
+    text += table('Category', summary.categories.map(({ config, count }) => [`${config.icon} ${config.label}`, count]));
+    text += table('Files', files);
+    return text;
+}
+
+/**
+ * Render notes in one of the export formats, with source excerpts in md and html if asked for
+ */
+async function renderExport(notes: Map<string, Note[]>, format: ExportFormat, options: CliOptions): Promise<string> {
+    const resolvePath = (filePath: string) => getAbsolutePath(filePath, options.root);
+    const excerpts = options.excerpts !== undefined && (format === 'md' || format === 'html')
+        ? await loadSourceExcerpts(notes, resolvePath, options.excerpts)
+        : new Map();
+
+    switch (format) {
+        case 'md': return renderMarkdown(notes, new Date(), excerpts);
+        case 'html': return renderHtml(notes, new Date(), excerpts);
+        case 'json': return renderJson(notes, resolvePath);
+        case 'csv': return renderCsv(notes);
+        case 'sarif': return renderSarif(notes, { sourceRoot: options.root });
+    }
+}
+
+/**
+ * Render notes with a template file, described by the files they were limited to
+ */
+async function renderTemplateFile(notes: Map<string, Note[]>, templateFile: string, options: CliOptions): Promise<string> {
+    const templatePath = path.resolve(templateFile);
+    const template = await fs.promises.readFile(templatePath, 'utf-8');
+    const context = buildTemplateContext(notes, {
+        resolvePath: filePath => getAbsolutePath(filePath, options.root),
+        scope: options.files.length > 0 ? options.files.join(', ') : 'Workspace',
+    });
+
+    try {
+        return renderTemplate(template, context, isHtmlTemplate(templatePath));
+    } catch (error) {
+        throw error instanceof TemplateError
+            ? new Error(`${path.basename(templatePath)}: ${error.message}`)
+            : error;
+    }
+}
+
+/**
+ * Run the CLI and return its exit code: 0 on success, 1 when `check` finds notes, 2 on errors
+ */
+export async function runCli(args: string[], output: CliOutput = processOutput): Promise<number> {
+    try {
+        const options = parseArgs(args);
+        if (options.help || !options.command) {
+            output.out(USAGE);
+            return options.help ? 0 : 2;
+        }
+
+        const notes = await loadNotes(options.root, output);
+
+        switch (options.command) {
+            case 'list': {
+                output.out(formatNoteList(filterNotes(notes, options)));
+                return 0;
+            }
+
+            case 'export': {
+                const format = options.format as ExportFormat;
+                if (!options.template && !EXPORT_FORMATS.includes(format)) {
+                    throw new UsageError(`--format must be one of ${EXPORT_FORMATS.join(', ')}, or give a --template`);
+                }
+
+                const content = options.template
+                    ? await renderTemplateFile(filterNotes(notes, options), options.template, options)
+                    : await renderExport(filterNotes(notes, options), format, options);
+                if (options.output) {
+                    await fs.promises.writeFile(path.resolve(options.output), content, 'utf-8');
+                } else {
+                    output.out(content);
+                }
+                return 0;
+            }
+
+            case 'stats': {
+                output.out(formatStats(filterNotes(notes, options)));
+                return 0;
+            }
+
+            case 'check': {
+                // Open high-priority bugs unless other criteria are given
+                const filter = options.filter;
+                if (!filter.categories?.length && !filter.priorities?.length && !filter.authors?.length && !filter.text) {
+                    filter.categories = ['bug'];
+                    filter.priorities = ['high'];
+                }
+                if (!filter.statuses?.length) {
+                    filter.statuses = ['open'];
+                }
+
+                const found = filterNotes(notes, options);
+                const count = countNotes(found);
+                if (count === 0) {
+                    output.out(`No notes matching ${describeFilter(filter)}\n`);
+                    return 0;
+                }
+
+                output.err(`${count} note${count === 1 ? '' : 's'} matching ${describeFilter(filter)}:\n`);
+                output.err(formatNoteList(found));
+                return 1;
+            }
+
+            default:
+                throw new UsageError(`Unknown command: ${options.command}`);
+        }
+    } catch (error) {
+        if (error instanceof UsageError) {
+            output.err(`review-notes: ${error.message}\n\n${USAGE}`);
+        } else {
+            output.err(`review-notes: ${error instanceof Error ? error.message : String(error)}\n`);
+        }
+        return 2;
+    }
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,697 @@
+import { pathToFileURL } from 'url';
+import {
+    Note,
+    NoteRange,
+    NoteReply,
+    PriorityDefinition,
+    CategoryDefinition,
+    DEFAULT_PRIORITIES,
+    STATUS_CONFIG,
+    getPriorities,
+    getCategories,
+    getPriorityConfig,
+    getCategoryConfig,
+    formatNoteRange
+} from './utils';
+import { SourceExcerpt, describeExcerptSource } from './sourceExcerpts';
+
+/**
+ * Export formats shared by the editor commands and the command line
+ */
+export type ExportFormat = 'md' | 'html' | 'json' | 'csv' | 'sarif';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json', 'csv', 'sarif'];
+
+/**
+ * Count notes per priority and per category. Every configured entry is listed,
+ * followed by any unknown ids found in the notes.
+ */
+export function summarizeNotes(notes: Map<string, Note[]>): {
+    priorities: { config: PriorityDefinition; count: number }[];
+    categories: { config: CategoryDefinition; count: number }[];
+} {
+    const priorityCounts = new Map<string, number>(getPriorities().map(p => [p.id, 0]));
+    const categoryCounts = new Map<string, number>(getCategories().map(c => [c.id, 0]));
+
+    for (const fileNotes of notes.values()) {
+        for (const note of fileNotes) {
+            priorityCounts.set(note.priority, (priorityCounts.get(note.priority) ?? 0) + 1);
+            categoryCounts.set(note.category, (categoryCounts.get(note.category) ?? 0) + 1);
+        }
+    }
+
+    return {
+        priorities: Array.from(priorityCounts.entries())
+            .map(([id, count]) => ({ config: getPriorityConfig(id), count })),
+        categories: Array.from(categoryCounts.entries())
+            .map(([id, count]) => ({ config: getCategoryConfig(id), count })),
+    };
+}
+
+/**
+ * Inline color for priorities that have no built-in CSS class
+ */
+function priorityStyle(priority: string, property: 'color' | 'background'): string {
+    if (DEFAULT_PRIORITIES.some(p => p.id === priority)) {
+        return '';
+    }
+    return ` style="${property}: ${escapeHtml(getPriorityConfig(priority).color)}"`;
+}
+
+/**
+ * Count notes across all files
+ */
+export function countNotes(notes: Map<string, Note[]>): number {
+    let count = 0;
+    for (const fileNotes of notes.values()) {
+        count += fileNotes.length;
+    }
+    return count;
+}
+
+/**
+ * Render notes per file as a Markdown report, with the source excerpts given for notes
+ */
+export function renderMarkdown(
+    allNotes: Map<string, Note[]>,
+    generated: Date = new Date(),
+    excerpts: Map<Note, SourceExcerpt> = new Map()
+): string {
+    const noteCount = countNotes(allNotes);
+
+    // Generate markdown content
+    let markdown = `# Review Notes Report\n\n`;
+    markdown += `Generated: ${generated.toLocaleString()}\n\n`;
+    markdown += `Total Notes: ${noteCount}\n\n`;
+    markdown += `---\n\n`;
+
+    // Group by priority and category for summary
+    const summary = summarizeNotes(allNotes);
+
+    markdown += `## Summary\n\n`;
+    markdown += `| Priority | Count |\n|----------|-------|\n`;
+    for (const { config, count } of summary.priorities) {
+        markdown += `| ${config.icon} ${config.label} | ${count} |\n`;
+    }
+    markdown += `\n`;
+
+    markdown += `| Category | Count |\n|----------|-------|\n`;
+    for (const { config, count } of summary.categories) {
+        markdown += `| ${config.icon} ${config.label} | ${count} |\n`;
+    }
+    markdown += `\n`;
+
+    markdown += `---\n\n`;
+    markdown += `## Notes by File\n\n`;
+
+    // Sort files alphabetically
+    const sortedFiles = Array.from(allNotes.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]));
+
+    for (const [filePath, notes] of sortedFiles) {
+        if (notes.length === 0) continue;
+
+        markdown += `### ${filePath}\n\n`;
+
+        // Sort notes by line number
+        const sortedNotes = [...notes].sort((a, b) => a.line - b.line);
+
+        for (const note of sortedNotes) {
+            const priorityConfig = getPriorityConfig(note.priority);
+            const categoryConfig = getCategoryConfig(note.category);
+            const date = new Date(note.timestamp).toLocaleString();
+
+            markdown += `#### ${formatNoteRange(note)} - ${categoryConfig.icon} ${categoryConfig.label} ${priorityConfig.icon}\n\n`;
+            markdown += `${note.text}\n\n`;
+            const status = note.status === 'open'
+                ? ''
+                : ` • ${STATUS_CONFIG[note.status].icon} ${STATUS_CONFIG[note.status].label}`;
+            markdown += `> *${note.author} • ${date}${status}*\n\n`;
+
+            const excerpt = excerpts.get(note);
+            if (excerpt) {
+                markdown += renderMarkdownExcerpt(filePath, excerpt);
+            }
+
+            for (const reply of note.replies) {
+                const replyDate = new Date(reply.timestamp).toLocaleString();
+                markdown += `##### Reply - ${reply.author} • ${replyDate}\n\n`;
+                markdown += `${reply.text}\n\n`;
+            }
+        }
+
+        markdown += `---\n\n`;
+    }
+
+    return markdown;
+}
+
+/**
+ * Fenced code block of an excerpt, after a line saying where it comes from.
+ * It follows the note's author line, so importing the report back leaves it out of the note text.
+ */
+function renderMarkdownExcerpt(filePath: string, excerpt: SourceExcerpt): string {
+    // The fence must be longer than any run of backticks in the code
+    const longestRun = Math.max(0, ...excerpt.lines.flatMap(line => line.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `\`${filePath}\` ${describeExcerptSource(excerpt)}:\n\n${fence}${excerpt.language}\n${excerpt.lines.join('\n')}\n${fence}\n\n`;
+}
+
+/**
+ * Render notes per file as a standalone HTML report, with the source excerpts given for notes
+ */
+export function renderHtml(
+    allNotes: Map<string, Note[]>,
+    generated: Date = new Date(),
+    excerpts: Map<Note, SourceExcerpt> = new Map()
+): string {
+    const noteCount = countNotes(allNotes);
+
+    // Count totals
+    const summary = summarizeNotes(allNotes);
+
+    // Generate HTML content
+    let html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Review Notes Report</title>
+    <style>
+        :root {
+            --bg-color: #1e1e2e;
+            --text-color: #cdd6f4;
+            --card-bg: #313244;
+            --border-color: #45475a;
+            --high-color: #f38ba8;
+            --medium-color: #fab387;
+            --low-color: #a6e3a1;
+        }
+        
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+        
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif;
+            background: var(--bg-color);
+            color: var(--text-color);
+            line-height: 1.6;
+            padding: 2rem;
+        }
+        
+        .container { max-width: 900px; margin: 0 auto; }
+        
+        h1 { 
+            color: #cba6f7;
+            margin-bottom: 0.5rem;
+            font-size: 2rem;
+        }
+        
+        .meta { 
+            color: #a6adc8;
+            margin-bottom: 2rem;
+            font-size: 0.9rem;
+        }
+        
+        .summary {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+            gap: 1rem;
+            margin-bottom: 2rem;
+        }
+        
+        .summary-card {
+            background: var(--card-bg);
+            padding: 1rem;
+            border-radius: 8px;
+            text-align: center;
+        }
+        
+        .summary-card .count {
+            font-size: 2rem;
+            font-weight: bold;
+        }
+        
+        .summary-card.high .count { color: var(--high-color); }
+        .summary-card.medium .count { color: var(--medium-color); }
+        .summary-card.low .count { color: var(--low-color); }
+        
+        .file-section {
+            background: var(--card-bg);
+            border-radius: 8px;
+            margin-bottom: 1.5rem;
+            overflow: hidden;
+        }
+        
+        .file-header {
+            background: #45475a;
+            padding: 0.75rem 1rem;
+            font-family: monospace;
+            font-size: 0.9rem;
+        }
+        
+        .note {
+            padding: 1rem;
+            border-bottom: 1px solid var(--border-color);
+        }
+        
+        .note:last-child { border-bottom: none; }
+        
+        .note-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 0.5rem;
+        }
+        
+        .note-meta {
+            display: flex;
+            gap: 0.5rem;
+            align-items: center;
+        }
+        
+        .badge {
+            padding: 0.25rem 0.5rem;
+            border-radius: 4px;
+            font-size: 0.75rem;
+            font-weight: 500;
+        }
+        
+        .badge.high { background: var(--high-color); color: #1e1e2e; }
+        .badge.medium { background: var(--medium-color); color: #1e1e2e; }
+        .badge.low { background: var(--low-color); color: #1e1e2e; }
+        
+        .category { font-size: 1.2rem; }
+        
+        .note-text {
+            background: #1e1e2e;
+            padding: 1rem;
+            border-radius: 4px;
+            white-space: pre-wrap;
+            font-family: inherit;
+        }
+        
+        .note-footer {
+            margin-top: 0.5rem;
+            font-size: 0.8rem;
+            color: #a6adc8;
+        }
+        
+        .replies {
+            margin-top: 0.75rem;
+            margin-left: 1.5rem;
+            padding-left: 1rem;
+            border-left: 2px solid var(--border-color);
+        }
+        
+        .reply { margin-top: 0.5rem; }
+        
+        .status-badge {
+            background: var(--border-color);
+            padding: 0.2rem 0.5rem;
+            border-radius: 4px;
+            font-size: 0.75rem;
+        }
+        
+        .line-badge {
+            background: #89b4fa;
+            color: #1e1e2e;
+            padding: 0.2rem 0.5rem;
+            border-radius: 4px;
+            font-size: 0.75rem;
+            font-family: monospace;
+        }
+        
+        .excerpt {
+            margin-top: 0.75rem;
+            border: 1px solid var(--border-color);
+            border-radius: 4px;
+            overflow: hidden;
+        }
+        
+        .excerpt-source {
+            background: var(--border-color);
+            padding: 0.25rem 0.75rem;
+            font-size: 0.75rem;
+            font-family: monospace;
+        }
+        
+        .code {
+            background: #181825;
+            padding: 0.5rem 0;
+            overflow-x: auto;
+            font-size: 0.85rem;
+            line-height: 1.4;
+        }
+        
+        .code-line { display: inline-block; min-width: 100%; padding-right: 0.75rem; }
+        .code-line.noted { background: rgba(249, 226, 175, 0.15); box-shadow: inset 3px 0 #f9e2af; }
+        .line-number { display: inline-block; width: 3.5rem; padding-right: 1rem; text-align: right; color: #6c7086; user-select: none; }
+        .tok-comment { color: #7f849c; font-style: italic; }
+        .tok-string { color: #a6e3a1; }
+        .tok-number { color: #fab387; }
+        .tok-keyword { color: #cba6f7; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>📋 Review Notes Report</h1>
+        <p class="meta">Generated: ${generated.toLocaleString()} | Total: ${noteCount} notes</p>
+        
+        <div class="summary">
+${summary.priorities.map(({ config, count }) => `            <div class="summary-card ${escapeHtml(config.id)}">
+                <div class="count"${priorityStyle(config.id, 'color')}>${count}</div>
+                <div>${escapeHtml(config.icon)} ${escapeHtml(config.label)} Priority</div>
+            </div>
+`).join('')}        </div>
+`;
+
+    // Sort files alphabetically
+    const sortedFiles = Array.from(allNotes.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]));
+
+    for (const [filePath, notes] of sortedFiles) {
+        if (notes.length === 0) continue;
+
+        html += `
+        <div class="file-section">
+            <div class="file-header">📁 ${escapeHtml(filePath)}</div>
+`;
+
+        // Sort notes by line number
+        const sortedNotes = [...notes].sort((a, b) => a.line - b.line);
+
+        for (const note of sortedNotes) {
+            const priorityConfig = getPriorityConfig(note.priority);
+            const categoryConfig = getCategoryConfig(note.category);
+            const date = new Date(note.timestamp).toLocaleString();
+
+            html += `
+            <div class="note">
+                <div class="note-header">
+                    <div class="note-meta">
+                        <span class="category">${escapeHtml(categoryConfig.icon)}</span>
+                        <span>${escapeHtml(categoryConfig.label)}</span>
+                        <span class="line-badge">${formatNoteRange(note)}</span>
+                        ${note.status === 'open' ? '' : `<span class="status-badge">${STATUS_CONFIG[note.status].icon} ${STATUS_CONFIG[note.status].label}</span>`}
+                    </div>
+                    <span class="badge ${escapeHtml(note.priority)}"${priorityStyle(note.priority, 'background')}>${escapeHtml(priorityConfig.icon)} ${escapeHtml(priorityConfig.label)}</span>
+                </div>
+                <div class="note-text">${escapeHtml(note.text)}</div>
+                <div class="note-footer">${escapeHtml(note.author)} • ${date}</div>
+${renderHtmlExcerpt(filePath, excerpts.get(note))}${renderHtmlReplies(note.replies)}            </div>
+`;
+        }
+
+        html += `        </div>\n`;
+    }
+
+    html += `
+    </div>
+</body>
+</html>`;
+
+    return html;
+}
+
+/**
+ * Languages whose line comments start with # or -- rather than //
+ */
+const HASH_COMMENT_LANGUAGES = ['python', 'ruby', 'bash', 'powershell', 'perl', 'r', 'yaml', 'toml', 'dockerfile', 'makefile', 'elixir', 'graphql', 'hcl'];
+const DASH_COMMENT_LANGUAGES = ['sql', 'lua', 'haskell'];
+
+/**
+ * Words highlighted as keywords, common to the usual C-like and scripting languages
+ */
+const KEYWORDS = new Set([
+    'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+    'def', 'default', 'defer', 'del', 'delete', 'do', 'elif', 'else', 'end', 'enum', 'except', 'export',
+    'extends', 'false', 'False', 'final', 'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if',
+    'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'lambda', 'let', 'match', 'mod',
+    'module', 'mut', 'namespace', 'new', 'nil', 'None', 'not', 'null', 'or', 'package', 'pass', 'private',
+    'protected', 'pub', 'public', 'raise', 'readonly', 'return', 'self', 'static', 'struct', 'super',
+    'switch', 'this', 'throw', 'throws', 'trait', 'true', 'True', 'try', 'type', 'typeof', 'undefined',
+    'use', 'val', 'var', 'void', 'while', 'with', 'yield',
+]);
+
+/**
+ * Light syntax highlighting of one line of code as HTML: comments, strings, numbers and keywords.
+ * Comments and strings spanning several lines are only recognized on their first line.
+ */
+export function highlightCode(line: string, language: string): string {
+    const lineComment = HASH_COMMENT_LANGUAGES.includes(language) ? '#'
+        : DASH_COMMENT_LANGUAGES.includes(language) ? '--'
+        : '//';
+    const blockComment = lineComment === '//' ? '|/\\*.*?(?:\\*/|$)' : '';
+    const pattern = new RegExp(
+        `(${lineComment}.*$${blockComment})|("(?:[^"\\\\]|\\\\.)*"?|'(?:[^'\\\\]|\\\\.)*'?|\`(?:[^\`\\\\]|\\\\.)*\`?)|(\\b\\d[\\d_]*(?:\\.\\d+)?\\b)|([A-Za-z_]\\w*)`,
+        'g'
+    );
+
+    let html = '';
+    let lastIndex = 0;
+    for (const match of line.matchAll(pattern)) {
+        const [token, comment, string, number] = match;
+        const index = match.index ?? 0;
+        html += escapeHtml(line.slice(lastIndex, index));
+        lastIndex = index + token.length;
+
+        const tokenClass = comment ? 'tok-comment'
+            : string ? 'tok-string'
+            : number ? 'tok-number'
+            : KEYWORDS.has(token) ? 'tok-keyword'
+            : undefined;
+        html += tokenClass ? `<span class="${tokenClass}">${escapeHtml(token)}</span>` : escapeHtml(token);
+    }
+    return html + escapeHtml(line.slice(lastIndex));
+}
+
+/**
+ * Render a source excerpt with line numbers, the noted lines highlighted
+ */
+function renderHtmlExcerpt(filePath: string, excerpt: SourceExcerpt | undefined): string {
+    if (!excerpt) {
+        return '';
+    }
+
+    const lines = excerpt.lines.map((line, i) => {
+        const lineNumber = excerpt.startLine + i;
+        const noted = lineNumber >= excerpt.noteStartLine && lineNumber <= excerpt.noteEndLine;
+        return `<span class="code-line${noted ? ' noted' : ''}"><span class="line-number">${lineNumber}</span>${highlightCode(line, excerpt.language)}</span>`;
+    });
+
+    return `                <div class="excerpt">
+                    <div class="excerpt-source">${escapeHtml(filePath)} · ${escapeHtml(describeExcerptSource(excerpt))}</div>
+                    <pre class="code language-${escapeHtml(excerpt.language)}">${lines.join('\n')}</pre>
+                </div>
+`;
+}
+
+/**
+ * Render the replies of a note as nested HTML blocks
+ */
+function renderHtmlReplies(replies: NoteReply[]): string {
+    if (replies.length === 0) {
+        return '';
+    }
+
+    let html = `                <div class="replies">\n`;
+    for (const reply of replies) {
+        const date = new Date(reply.timestamp).toLocaleString();
+        html += `                    <div class="reply">
+                        <div class="note-text">${escapeHtml(reply.text)}</div>
+                        <div class="note-footer">↳ ${escapeHtml(reply.author)} • ${date}</div>
+                    </div>
+`;
+    }
+    html += `                </div>\n`;
+
+    return html;
+}
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Notes of all files as [file, note] pairs, files sorted by path and notes by line
+ */
+function flattenNotes(allNotes: Map<string, Note[]>): [string, Note][] {
+    return Array.from(allNotes.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .flatMap(([filePath, notes]) => [...notes]
+            .sort((a, b) => a.line - b.line)
+            .map(note => [filePath, note] as [string, Note]));
+}
+
+/**
+ * Render notes as JSON for scripts: one flat list with relative and absolute paths,
+ * 1-based lines and columns, and ISO dates
+ */
+export function renderJson(
+    allNotes: Map<string, Note[]>,
+    resolvePath: (filePath: string) => string,
+    generated: Date = new Date()
+): string {
+    const notes = flattenNotes(allNotes).map(([filePath, note]) => ({
+        id: note.id,
+        file: filePath,
+        absolutePath: resolvePath(filePath),
+        line: note.line + 1,
+        column: note.startCharacter + 1,
+        endLine: note.endLine + 1,
+        endColumn: note.endCharacter + 1,
+        category: note.category,
+        priority: note.priority,
+        status: note.status,
+        author: note.author,
+        timestamp: new Date(note.timestamp).toISOString(),
+        text: note.text,
+        replies: note.replies.map(reply => ({
+            id: reply.id,
+            author: reply.author,
+            timestamp: new Date(reply.timestamp).toISOString(),
+            text: reply.text,
+        })),
+    }));
+
+    return JSON.stringify({ generated: generated.toISOString(), total: notes.length, notes }, null, 2) + '\n';
+}
+
+/**
+ * Quote a CSV field if it holds a separator, quote or line break
+ */
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render notes as CSV for spreadsheets, one row per note.
+ * Line breaks in note text are kept inside quoted fields.
+ */
+export function renderCsv(allNotes: Map<string, Note[]>): string {
+    const rows: (string | number)[][] = [['file', 'line', 'category', 'priority', 'author', 'timestamp', 'status', 'text']];
+    for (const [filePath, note] of flattenNotes(allNotes)) {
+        rows.push([
+            filePath,
+            note.line + 1,
+            note.category,
+            note.priority,
+            note.author,
+            new Date(note.timestamp).toISOString(),
+            note.status,
+            note.text,
+        ]);
+    }
+
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Severity of a SARIF result
+ */
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * SARIF level per priority id; priorities not listed are reported as notes
+ */
+export const DEFAULT_SARIF_LEVELS: Record<string, SarifLevel> = { high: 'error', medium: 'warning', low: 'note' };
+
+/**
+ * SARIF region of a note: 1-based lines and columns, end column exclusive.
+ * Whole-line notes leave out the columns.
+ */
+function sarifRegion(note: NoteRange): Record<string, number> {
+    if (note.line === note.endLine && note.startCharacter === note.endCharacter) {
+        return { startLine: note.line + 1 };
+    }
+    if (note.line === note.endLine) {
+        return { startLine: note.line + 1, startColumn: note.startCharacter + 1, endColumn: note.endCharacter + 1 };
+    }
+    if (note.startCharacter === 0 && note.endCharacter === 0) {
+        return { startLine: note.line + 1, endLine: note.endLine };
+    }
+    return {
+        startLine: note.line + 1,
+        startColumn: note.startCharacter + 1,
+        endLine: note.endLine + 1,
+        endColumn: note.endCharacter + 1,
+    };
+}
+
+/**
+ * Render notes as a SARIF 2.1.0 log for code-scanning viewers: categories are rules,
+ * priorities map to levels and closed notes are reported as suppressed.
+ * File paths are relative to %SRCROOT%, which is set when sourceRoot is given.
+ */
+export function renderSarif(
+    allNotes: Map<string, Note[]>,
+    options: { sourceRoot?: string; levels?: Record<string, SarifLevel> } = {}
+): string {
+    const levels = options.levels ?? DEFAULT_SARIF_LEVELS;
+    const categories = summarizeNotes(allNotes).categories.map(({ config }) => config);
+    const rules = categories.map(category => ({
+        id: category.id,
+        name: category.label,
+        shortDescription: { text: `${category.icon} ${category.label} review note` },
+    }));
+
+    const results = flattenNotes(allNotes).map(([filePath, note]) => ({
+        ruleId: note.category,
+        ruleIndex: categories.findIndex(category => category.id === note.category),
+        level: levels[note.priority] ?? 'note',
+        message: { text: note.text },
+        locations: [{
+            physicalLocation: {
+                artifactLocation: {
+                    uri: filePath.replace(/^\.\//, '').split('/').map(encodeURIComponent).join('/'),
+                    uriBaseId: '%SRCROOT%',
+                },
+                region: sarifRegion(note),
+            },
+        }],
+        partialFingerprints: { 'reviewNoteId/v1': note.id },
+        ...(note.status === 'open' ? {} : {
+            suppressions: [{ kind: 'external', status: 'accepted', justification: STATUS_CONFIG[note.status].label }],
+        }),
+        properties: {
+            priority: note.priority,
+            status: note.status,
+            author: note.author,
+            timestamp: new Date(note.timestamp).toISOString(),
+            replies: note.replies.map(reply => ({
+                author: reply.author,
+                timestamp: new Date(reply.timestamp).toISOString(),
+                text: reply.text,
+            })),
+        },
+    }));
+
+    const log = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'Review Notes',
+                    informationUri: 'https://github.com/aikaisi/review-notes',
+                    rules,
+                },
+            },
+            ...(options.sourceRoot ? {
+                originalUriBaseIds: { '%SRCROOT%': { uri: pathToFileURL(options.sourceRoot).href.replace(/\/?$/, '/') } },
+            } : {}),
+            results,
+        }],
+    };
+
+    return JSON.stringify(log, null, 2) + '\n';
+}
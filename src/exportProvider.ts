@@ -1,376 +1,575 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { PRIORITY_CONFIG, CATEGORY_CONFIG } from './utils';
+import { Note, getAbsolutePath, getRelativePath, normalizeFilePath } from './utils';
+import {
+    ExportFormat,
+    EXPORT_FORMATS,
+    SarifLevel,
+    renderMarkdown,
+    renderHtml,
+    renderJson,
+    renderCsv,
+    renderSarif,
+    countNotes
+} from './exportFormats';
+import {
+    TemplateError,
+    renderTemplate,
+    buildTemplateContext,
+    isHtmlTemplate,
+    getTemplateOutputExtension
+} from './exportTemplate';
+import { SourceExcerpt, loadSourceExcerpts } from './sourceExcerpts';
+import { NoteFilterState } from './noteFilter';
+import { NoteFilter, matchesFilter, isFilterActive, describeFilter } from './noteQuery';
 import { NoteStorage } from './noteStorage';
+import { WorkspaceManager, getWorkspaceFolderName } from './workspaceManager';
+
+const EXPORT_STATE_KEY = 'reviewNotes.export';
+const MAX_RECENT_TEMPLATES = 5;
 
 /**
- * Export notes to Markdown format
+ * Which notes an export covers
  */
-export async function exportToMarkdown(storage: NoteStorage): Promise<void> {
-    const allNotes = storage.getAllNotes();
-
-    if (allNotes.size === 0) {
-        vscode.window.showWarningMessage('No notes to export');
-        return;
-    }
+export type ExportScope = 'workspace' | 'file' | 'folder' | 'filter';
 
-    const workspaceRoot = storage.getWorkspaceRoot();
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const defaultFilename = `review-notes-${timestamp}.md`;
+const EXPORT_SCOPES: Record<ExportScope, { label: string; detail: string }> = {
+    workspace: { label: '$(root-folder) Whole Workspace', detail: 'Notes of every workspace folder' },
+    file: { label: '$(file) Current File', detail: 'Notes of the file open in the editor' },
+    folder: { label: '$(folder) Folder...', detail: 'Notes of the files under a folder' },
+    filter: { label: '$(filter) Notes Explorer Filter', detail: 'Notes matching the current Notes Explorer filter' },
+};
 
-    // Ask for save location
-    const saveUri = await vscode.window.showSaveDialog({
-        defaultUri: vscode.Uri.file(path.join(workspaceRoot, defaultFilename)),
-        filters: { 'Markdown': ['md'] }
-    });
+/**
+ * Export choices remembered per workspace
+ */
+interface ExportState {
+    scope: ExportScope;
+    /** Absolute path of the folder exported with the folder scope */
+    folder?: string;
+    /** Format or template last chosen with Export Notes... */
+    format?: ExportFormat;
+    template?: string;
+    recentTemplates?: string[];
+    /** Where the last export was saved */
+    saveFolder?: string;
+}
 
-    if (!saveUri) {
-        return;
-    }
+function getExportState(memento: vscode.Memento): ExportState {
+    return memento.get<ExportState>(EXPORT_STATE_KEY, { scope: 'workspace' });
+}
 
-    // Generate markdown content
-    let markdown = `# Review Notes Report\n\n`;
-    markdown += `Generated: ${new Date().toLocaleString()}\n\n`;
-    markdown += `Total Notes: ${storage.getTotalNoteCount()}\n\n`;
-    markdown += `---\n\n`;
+async function updateExportState(memento: vscode.Memento, changes: Partial<ExportState>): Promise<void> {
+    await memento.update(EXPORT_STATE_KEY, { ...getExportState(memento), ...changes });
+}
 
-    // Group by priority for summary
-    const summary = { high: 0, medium: 0, low: 0 };
-    const categories = { todo: 0, bug: 0, question: 0, idea: 0, note: 0 };
+/**
+ * An export scope applied to the current workspace
+ */
+interface ResolvedScope {
+    /** Describes the scope in templates */
+    label: string;
+    /** Added to the default file name */
+    slug: string;
+    includes: (storage: NoteStorage, filePath: string) => boolean;
+    filter: NoteFilter;
+}
 
-    for (const notes of allNotes.values()) {
-        for (const note of notes) {
-            summary[note.priority]++;
-            categories[note.category]++;
+/**
+ * Resolve the remembered scope against the open editor, the workspace folders and the
+ * explorer filter. Other scopes apply the explorer filter only if reviewNotes.export.applyFilter is set.
+ */
+function resolveScope(
+    state: ExportState,
+    workspaceManager: WorkspaceManager,
+    filterState: NoteFilterState
+): ResolvedScope | undefined {
+    const config = vscode.workspace.getConfiguration('reviewNotes');
+    const filter = config.get<boolean>('export.applyFilter', false) ? filterState.get() : {};
+
+    switch (state.scope) {
+        case 'file': {
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            const storage = uri && workspaceManager.getStorage(uri);
+            if (!uri || !storage) {
+                vscode.window.showWarningMessage('Open a file of the workspace to export its notes, or pick another scope with Export Notes...');
+                return undefined;
+            }
+            const relativePath = normalizeFilePath(getRelativePath(uri.fsPath, storage.getWorkspaceRoot()));
+            return {
+                label: relativePath.replace(/^\.\//, ''),
+                slug: path.basename(uri.fsPath),
+                includes: (s, filePath) => s === storage && filePath === relativePath,
+                filter,
+            };
         }
-    }
 
-    markdown += `## Summary\n\n`;
-    markdown += `| Priority | Count |\n|----------|-------|\n`;
-    markdown += `| 🔴 High | ${summary.high} |\n`;
-    markdown += `| 🟡 Medium | ${summary.medium} |\n`;
-    markdown += `| 🟢 Low | ${summary.low} |\n\n`;
-
-    markdown += `| Category | Count |\n|----------|-------|\n`;
-    markdown += `| 📋 TODO | ${categories.todo} |\n`;
-    markdown += `| 🐛 BUG | ${categories.bug} |\n`;
-    markdown += `| ❓ QUESTION | ${categories.question} |\n`;
-    markdown += `| 💡 IDEA | ${categories.idea} |\n`;
-    markdown += `| 📝 NOTE | ${categories.note} |\n\n`;
+        case 'folder': {
+            const folder = state.folder;
+            const storage = folder && workspaceManager.getStorage(vscode.Uri.file(folder));
+            if (!folder || !storage) {
+                break;
+            }
+            return {
+                label: normalizeFilePath(path.relative(storage.getWorkspaceRoot(), folder)) || getWorkspaceFolderName(folder),
+                slug: path.basename(folder),
+                includes: (s, filePath) => {
+                    const absolutePath = getAbsolutePath(filePath, s.getWorkspaceRoot());
+                    return absolutePath.startsWith(folder + path.sep);
+                },
+                filter,
+            };
+        }
 
-    markdown += `---\n\n`;
-    markdown += `## Notes by File\n\n`;
+        case 'filter': {
+            const explorerFilter = filterState.get();
+            return {
+                label: isFilterActive(explorerFilter) ? describeFilter(explorerFilter) : 'Workspace',
+                slug: isFilterActive(explorerFilter) ? 'filtered' : '',
+                includes: () => true,
+                filter: explorerFilter,
+            };
+        }
+    }
 
-    // Sort files alphabetically
-    const sortedFiles = Array.from(allNotes.entries())
-        .sort((a, b) => a[0].localeCompare(b[0]));
+    return { label: 'Workspace', slug: '', includes: () => true, filter };
+}
 
-    for (const [filePath, notes] of sortedFiles) {
-        if (notes.length === 0) continue;
+/**
+ * Notes to export, keyed by the path shown in the export
+ */
+interface ExportedNotes {
+    notes: Map<string, Note[]>;
+    resolvePath: (displayPath: string) => string;
+    /** Folder the paths are relative to, unless they are prefixed with workspace folder names */
+    sourceRoot: string | undefined;
+    /** Source lines of the notes, for the formats that show them */
+    excerpts: Map<Note, SourceExcerpt>;
+}
 
-        markdown += `### ${filePath}\n\n`;
+/**
+ * Get the notes to export from all workspace folders, leaving out closed notes
+ * unless the user wants them and keeping those in scope.
+ * In multi-root workspaces file paths are prefixed with their folder name.
+ */
+function getExportNotes(workspaceManager: WorkspaceManager, scope: ResolvedScope): ExportedNotes {
+    const config = vscode.workspace.getConfiguration('reviewNotes');
+    const includeResolved = config.get<boolean>('export.includeResolved', true);
+    const storages = workspaceManager.getStorages();
+    const notes = new Map<string, Note[]>();
+    const absolutePaths = new Map<string, string>();
+
+    for (const storage of storages) {
+        const folderName = getWorkspaceFolderName(storage.getWorkspaceRoot());
+
+        for (const [filePath, fileNotes] of storage.getAllNotes().entries()) {
+            if (!scope.includes(storage, filePath)) {
+                continue;
+            }
+
+            const exported = fileNotes.filter(note =>
+                (includeResolved || note.status === 'open') && matchesFilter(note, scope.filter));
+            if (exported.length > 0) {
+                const displayPath = storages.length > 1
+                    ? `${folderName}/${filePath.replace(/^\.\//, '')}`
+                    : filePath;
+                notes.set(displayPath, exported);
+                absolutePaths.set(displayPath, getAbsolutePath(filePath, storage.getWorkspaceRoot()));
+            }
+        }
+    }
 
-        // Sort notes by line number
-        const sortedNotes = [...notes].sort((a, b) => a.line - b.line);
+    return {
+        notes,
+        resolvePath: displayPath => absolutePaths.get(displayPath) ?? displayPath,
+        sourceRoot: storages.length === 1 ? storages[0].getWorkspaceRoot() : undefined,
+        excerpts: new Map(),
+    };
+}
 
-        for (const note of sortedNotes) {
-            const priorityConfig = PRIORITY_CONFIG[note.priority];
-            const categoryConfig = CATEGORY_CONFIG[note.category];
-            const date = new Date(note.timestamp).toLocaleString();
+/**
+ * Default location for an export file: where the last export was saved, or the first workspace folder
+ */
+function getDefaultExportUri(workspaceManager: WorkspaceManager, state: ExportState, filename: string): vscode.Uri | undefined {
+    const folder = state.saveFolder && fs.existsSync(state.saveFolder)
+        ? state.saveFolder
+        : workspaceManager.getStorages()[0]?.getWorkspaceRoot();
+    return folder ? vscode.Uri.file(path.join(folder, filename)) : undefined;
+}
 
-            markdown += `#### Line ${note.line + 1} - ${categoryConfig.icon} ${categoryConfig.label} ${priorityConfig.icon}\n\n`;
-            markdown += `${note.text}\n\n`;
-            markdown += `> *${note.author} • ${date}*\n\n`;
-        }
+/**
+ * SARIF levels follow the Problems panel severities (reviewNotes.diagnostics.severity)
+ */
+function getSarifLevels(): Record<string, SarifLevel> {
+    const severities = vscode.workspace.getConfiguration('reviewNotes')
+        .get<Record<string, string>>('diagnostics.severity', { high: 'error', medium: 'warning', low: 'information' });
 
-        markdown += `---\n\n`;
+    const levels: Record<string, SarifLevel> = {};
+    for (const [priority, severity] of Object.entries(severities)) {
+        levels[priority] = severity === 'error' || severity === 'warning' ? severity : 'note';
     }
+    return levels;
+}
 
-    // Write file
-    await fs.promises.writeFile(saveUri.fsPath, markdown, 'utf-8');
-
-    // Open the file
-    const doc = await vscode.workspace.openTextDocument(saveUri);
-    await vscode.window.showTextDocument(doc);
+/**
+ * How each format is saved and opened, and whether it can show source excerpts
+ */
+const EXPORT_TARGETS: Record<ExportFormat, {
+    name: string;
+    render: (exported: ExportedNotes) => string;
+    openExternal: boolean;
+    excerpts: boolean;
+}> = {
+    md: {
+        name: 'Markdown',
+        render: ({ notes, excerpts }) => renderMarkdown(notes, new Date(), excerpts),
+        openExternal: false,
+        excerpts: true,
+    },
+    html: {
+        name: 'HTML',
+        render: ({ notes, excerpts }) => renderHtml(notes, new Date(), excerpts),
+        openExternal: true,
+        excerpts: true,
+    },
+    json: { name: 'JSON', render: ({ notes, resolvePath }) => renderJson(notes, resolvePath), openExternal: false, excerpts: false },
+    csv: { name: 'CSV', render: ({ notes }) => renderCsv(notes), openExternal: false, excerpts: false },
+    sarif: {
+        name: 'SARIF',
+        render: ({ notes, sourceRoot }) => renderSarif(notes, { sourceRoot, levels: getSarifLevels() }),
+        openExternal: false,
+        excerpts: false,
+    },
+};
 
-    vscode.window.showInformationMessage(`Exported ${storage.getTotalNoteCount()} notes to Markdown`);
+/**
+ * Read the source lines of the exported notes from disk if reviewNotes.export.includeSourceExcerpts is set
+ */
+async function loadExportExcerpts(exported: ExportedNotes): Promise<Map<Note, SourceExcerpt>> {
+    const config = vscode.workspace.getConfiguration('reviewNotes');
+    if (!config.get<boolean>('export.includeSourceExcerpts', false)) {
+        return new Map();
+    }
+    return loadSourceExcerpts(exported.notes, exported.resolvePath, config.get<number>('export.excerptContextLines', 2));
 }
 
 /**
- * Export notes to HTML format
+ * What an export writes: one of the built-in formats, or a template file
+ */
+type ExportChoice = { format: ExportFormat; template?: undefined } | { template: string; format?: undefined };
+
+/**
+ * Render the notes in scope with a built-in format or a template, save them where the user picks, then open the file
  */
-export async function exportToHtml(storage: NoteStorage): Promise<void> {
-    const allNotes = storage.getAllNotes();
+export async function exportNotes(
+    workspaceManager: WorkspaceManager,
+    filterState: NoteFilterState,
+    memento: vscode.Memento,
+    choice: ExportChoice
+): Promise<void> {
+    const state = getExportState(memento);
+    const scope = resolveScope(state, workspaceManager, filterState);
+    if (!scope) {
+        return;
+    }
 
-    if (allNotes.size === 0) {
-        vscode.window.showWarningMessage('No notes to export');
+    const exported = getExportNotes(workspaceManager, scope);
+    const noteCount = countNotes(exported.notes);
+
+    if (noteCount === 0) {
+        vscode.window.showWarningMessage(scope.label === 'Workspace' ? 'No notes to export' : `No notes to export in ${scope.label}`);
         return;
     }
 
-    const workspaceRoot = storage.getWorkspaceRoot();
+    let content: string;
+    let name: string;
+    let extension: string;
+    if (choice.format) {
+        name = EXPORT_TARGETS[choice.format].name;
+        extension = choice.format;
+        if (EXPORT_TARGETS[choice.format].excerpts) {
+            exported.excerpts = await loadExportExcerpts(exported);
+        }
+        content = EXPORT_TARGETS[choice.format].render(exported);
+    } else {
+        name = path.basename(choice.template);
+        extension = getTemplateOutputExtension(choice.template).slice(1);
+        let template: string;
+        try {
+            template = await fs.promises.readFile(choice.template, 'utf-8');
+        } catch (error) {
+            console.error('Failed to read export template:', error);
+            vscode.window.showErrorMessage(`Review Notes: Cannot use template ${name}: the file could not be read`);
+            return;
+        }
+        try {
+            const context = buildTemplateContext(exported.notes, { resolvePath: exported.resolvePath, scope: scope.label });
+            content = renderTemplate(template, context, isHtmlTemplate(choice.template));
+        } catch (error) {
+            // Anything else is a bug, not a problem with the template
+            if (!(error instanceof TemplateError)) {
+                throw error;
+            }
+            vscode.window.showErrorMessage(`Review Notes: Cannot use template ${name}: ${error.message}`);
+            return;
+        }
+    }
+
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const defaultFilename = `review-notes-${timestamp}.html`;
+    const slug = scope.slug ? `-${scope.slug.replace(/[^\w.-]+/g, '-')}` : '';
+    const defaultFilename = `review-notes${slug}-${timestamp}.${extension}`;
 
     // Ask for save location
+    // The format commands reuse the scope last chosen with Export Notes..., so name it
     const saveUri = await vscode.window.showSaveDialog({
-        defaultUri: vscode.Uri.file(path.join(workspaceRoot, defaultFilename)),
-        filters: { 'HTML': ['html'] }
+        title: `Export ${noteCount} notes of ${scope.label} to ${name}`,
+        defaultUri: getDefaultExportUri(workspaceManager, state, defaultFilename),
+        filters: { [name]: [extension] }
     });
 
     if (!saveUri) {
         return;
     }
 
-    // Count totals
-    const summary = { high: 0, medium: 0, low: 0 };
-    const categories = { todo: 0, bug: 0, question: 0, idea: 0, note: 0 };
+    // Write file
+    try {
+        await fs.promises.writeFile(saveUri.fsPath, content, 'utf-8');
+    } catch (error) {
+        console.error('Failed to export notes:', error);
+        vscode.window.showErrorMessage(`Failed to export notes: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+    await updateExportState(memento, { saveFolder: path.dirname(saveUri.fsPath) });
+
+    // Open reports in the browser, everything else in the editor
+    const openExternal = choice.format ? EXPORT_TARGETS[choice.format].openExternal : isHtmlTemplate(choice.template);
+    if (openExternal) {
+        await vscode.env.openExternal(saveUri);
+    } else {
+        const doc = await vscode.workspace.openTextDocument(saveUri);
+        await vscode.window.showTextDocument(doc);
+    }
 
-    for (const notes of allNotes.values()) {
-        for (const note of notes) {
-            summary[note.priority]++;
-            categories[note.category]++;
-        }
+    vscode.window.showInformationMessage(`Exported ${noteCount} notes of ${scope.label} to ${name}`);
+}
+
+/**
+ * Quick pick item for a format or template
+ */
+interface ExportChoiceItem extends vscode.QuickPickItem {
+    choice?: ExportChoice;
+    browse?: boolean;
+}
+
+/**
+ * Ask for a built-in format or a template file, offering recently used templates
+ */
+async function pickExportChoice(workspaceManager: WorkspaceManager, state: ExportState): Promise<ExportChoice | undefined> {
+    const lastUsed = (choice: ExportChoice) =>
+        (choice.format ? choice.format === state.format && !state.template : choice.template === state.template)
+            ? '$(check) Last used'
+            : '';
+
+    const formatDetails: Record<ExportFormat, string> = {
+        md: 'Report with a summary and the notes of each file',
+        html: 'Standalone report to view in a browser',
+        json: 'One entry per note, for scripts',
+        csv: 'One row per note, for spreadsheets',
+        sarif: 'SARIF 2.1.0 log for code-scanning viewers',
+    };
+
+    const items: ExportChoiceItem[] = EXPORT_FORMATS.map(format => ({
+        label: EXPORT_TARGETS[format].name,
+        detail: formatDetails[format],
+        description: lastUsed({ format }),
+        choice: { format },
+    }));
+
+    items.push({ label: 'Templates', kind: vscode.QuickPickItemKind.Separator });
+    for (const template of (state.recentTemplates ?? []).filter(t => fs.existsSync(t))) {
+        items.push({
+            label: `$(file-code) ${path.basename(template)}`,
+            detail: template,
+            description: lastUsed({ template }),
+            choice: { template },
+        });
     }
+    items.push({ label: '$(folder-opened) Choose Template File...', browse: true });
 
-    // Generate HTML content
-    let html = `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Review Notes Report</title>
-    <style>
-        :root {
-            --bg-color: #1e1e2e;
-            --text-color: #cdd6f4;
-            --card-bg: #313244;
-            --border-color: #45475a;
-            --high-color: #f38ba8;
-            --medium-color: #fab387;
-            --low-color: #a6e3a1;
-        }
-        
-        * { box-sizing: border-box; margin: 0; padding: 0; }
-        
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif;
-            background: var(--bg-color);
-            color: var(--text-color);
-            line-height: 1.6;
-            padding: 2rem;
-        }
-        
-        .container { max-width: 900px; margin: 0 auto; }
-        
-        h1 { 
-            color: #cba6f7;
-            margin-bottom: 0.5rem;
-            font-size: 2rem;
-        }
-        
-        .meta { 
-            color: #a6adc8;
-            margin-bottom: 2rem;
-            font-size: 0.9rem;
-        }
-        
-        .summary {
-            display: grid;
-            grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
-            gap: 1rem;
-            margin-bottom: 2rem;
-        }
-        
-        .summary-card {
-            background: var(--card-bg);
-            padding: 1rem;
-            border-radius: 8px;
-            text-align: center;
-        }
-        
-        .summary-card .count {
-            font-size: 2rem;
-            font-weight: bold;
-        }
-        
-        .summary-card.high .count { color: var(--high-color); }
-        .summary-card.medium .count { color: var(--medium-color); }
-        .summary-card.low .count { color: var(--low-color); }
-        
-        .file-section {
-            background: var(--card-bg);
-            border-radius: 8px;
-            margin-bottom: 1.5rem;
-            overflow: hidden;
-        }
-        
-        .file-header {
-            background: #45475a;
-            padding: 0.75rem 1rem;
-            font-family: monospace;
-            font-size: 0.9rem;
-        }
-        
-        .note {
-            padding: 1rem;
-            border-bottom: 1px solid var(--border-color);
-        }
-        
-        .note:last-child { border-bottom: none; }
-        
-        .note-header {
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            margin-bottom: 0.5rem;
-        }
-        
-        .note-meta {
-            display: flex;
-            gap: 0.5rem;
-            align-items: center;
-        }
-        
-        .badge {
-            padding: 0.25rem 0.5rem;
-            border-radius: 4px;
-            font-size: 0.75rem;
-            font-weight: 500;
-        }
-        
-        .badge.high { background: var(--high-color); color: #1e1e2e; }
-        .badge.medium { background: var(--medium-color); color: #1e1e2e; }
-        .badge.low { background: var(--low-color); color: #1e1e2e; }
-        
-        .category { font-size: 1.2rem; }
-        
-        .note-text {
-            background: #1e1e2e;
-            padding: 1rem;
-            border-radius: 4px;
-            white-space: pre-wrap;
-            font-family: inherit;
-        }
-        
-        .note-footer {
-            margin-top: 0.5rem;
-            font-size: 0.8rem;
-            color: #a6adc8;
-        }
-        
-        .line-badge {
-            background: #89b4fa;
-            color: #1e1e2e;
-            padding: 0.2rem 0.5rem;
-            border-radius: 4px;
-            font-size: 0.75rem;
-            font-family: monospace;
-        }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <h1>📋 Review Notes Report</h1>
-        <p class="meta">Generated: ${new Date().toLocaleString()} | Total: ${storage.getTotalNoteCount()} notes</p>
-        
-        <div class="summary">
-            <div class="summary-card high">
-                <div class="count">${summary.high}</div>
-                <div>🔴 High Priority</div>
-            </div>
-            <div class="summary-card medium">
-                <div class="count">${summary.medium}</div>
-                <div>🟡 Medium Priority</div>
-            </div>
-            <div class="summary-card low">
-                <div class="count">${summary.low}</div>
-                <div>🟢 Low Priority</div>
-            </div>
-        </div>
-`;
-
-    // Sort files alphabetically
-    const sortedFiles = Array.from(allNotes.entries())
-        .sort((a, b) => a[0].localeCompare(b[0]));
-
-    for (const [filePath, notes] of sortedFiles) {
-        if (notes.length === 0) continue;
-
-        html += `
-        <div class="file-section">
-            <div class="file-header">📁 ${filePath}</div>
-`;
-
-        // Sort notes by line number
-        const sortedNotes = [...notes].sort((a, b) => a.line - b.line);
-
-        for (const note of sortedNotes) {
-            const priorityConfig = PRIORITY_CONFIG[note.priority];
-            const categoryConfig = CATEGORY_CONFIG[note.category];
-            const date = new Date(note.timestamp).toLocaleString();
-
-            html += `
-            <div class="note">
-                <div class="note-header">
-                    <div class="note-meta">
-                        <span class="category">${categoryConfig.icon}</span>
-                        <span>${categoryConfig.label}</span>
-                        <span class="line-badge">Line ${note.line + 1}</span>
-                    </div>
-                    <span class="badge ${note.priority}">${priorityConfig.icon} ${priorityConfig.label}</span>
-                </div>
-                <div class="note-text">${escapeHtml(note.text)}</div>
-                <div class="note-footer">${note.author} • ${date}</div>
-            </div>
-`;
-        }
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Export Notes',
+        placeHolder: 'Choose a format, or a template for your own layout',
+    });
 
-        html += `        </div>\n`;
+    if (picked?.browse) {
+        const workspaceRoot = workspaceManager.getStorages()[0]?.getWorkspaceRoot();
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Use Template',
+            defaultUri: workspaceRoot ? vscode.Uri.file(workspaceRoot) : undefined,
+        });
+        return uris?.[0] ? { template: uris[0].fsPath } : undefined;
     }
 
-    html += `
-    </div>
-</body>
-</html>`;
+    return picked?.choice;
+}
 
-    // Write file
-    await fs.promises.writeFile(saveUri.fsPath, html, 'utf-8');
+/**
+ * Ask which notes to export; picking a folder lists the folders that contain notes
+ */
+async function pickExportScope(
+    workspaceManager: WorkspaceManager,
+    filterState: NoteFilterState,
+    state: ExportState
+): Promise<Pick<ExportState, 'scope' | 'folder'> | undefined> {
+    interface ScopeItem extends vscode.QuickPickItem {
+        scope: ExportScope;
+    }
 
-    // Open in browser
-    await vscode.env.openExternal(saveUri);
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const descriptions: Record<ExportScope, string> = {
+        workspace: '',
+        file: activeUri ? path.basename(activeUri.fsPath) : 'No file open',
+        folder: state.folder ? path.basename(state.folder) : '',
+        filter: isFilterActive(filterState.get()) ? describeFilter(filterState.get()) : 'No filter set',
+    };
+
+    const items: ScopeItem[] = (Object.keys(EXPORT_SCOPES) as ExportScope[]).map(scope => ({
+        label: EXPORT_SCOPES[scope].label,
+        detail: EXPORT_SCOPES[scope].detail,
+        description: [descriptions[scope], scope === state.scope ? '$(check) Last used' : ''].filter(d => d).join(' · '),
+        scope,
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Export Notes',
+        placeHolder: 'Choose which notes to export',
+    });
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.scope !== 'folder') {
+        return { scope: picked.scope };
+    }
 
-    vscode.window.showInformationMessage(`Exported ${storage.getTotalNoteCount()} notes to HTML`);
+    const folder = await pickNotesFolder(workspaceManager, state.folder);
+    return folder ? { scope: 'folder', folder } : undefined;
 }
 
 /**
- * Escape HTML special characters
+ * Pick one of the folders containing notes
  */
-function escapeHtml(text: string): string {
-    return text
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#39;');
+async function pickNotesFolder(workspaceManager: WorkspaceManager, current: string | undefined): Promise<string | undefined> {
+    const storages = workspaceManager.getStorages();
+    const counts = new Map<string, number>();
+
+    for (const storage of storages) {
+        const workspaceRoot = storage.getWorkspaceRoot();
+        for (const [filePath, notes] of storage.getAllNotes().entries()) {
+            let folder = path.dirname(getAbsolutePath(filePath, workspaceRoot));
+            while (folder.startsWith(workspaceRoot + path.sep)) {
+                counts.set(folder, (counts.get(folder) ?? 0) + notes.length);
+                folder = path.dirname(folder);
+            }
+        }
+    }
+
+    if (counts.size === 0) {
+        vscode.window.showInformationMessage('No folders with notes to export');
+        return undefined;
+    }
+
+    const items = Array.from(counts.entries()).map(([folder, count]) => {
+        const workspaceRoot = workspaceManager.getStorage(vscode.Uri.file(folder))?.getWorkspaceRoot() ?? '';
+        const relative = normalizeFilePath(path.relative(workspaceRoot, folder));
+        return {
+            label: `$(folder) ${storages.length > 1 ? `${getWorkspaceFolderName(workspaceRoot)}/` : ''}${relative}`,
+            description: `${count} note${count === 1 ? '' : 's'}${folder === current ? ' · $(check) Last used' : ''}`,
+            folder,
+        };
+    }).sort((a, b) => a.label.localeCompare(b.label));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Export Notes',
+        placeHolder: 'Choose the folder to export',
+    });
+    return picked?.folder;
 }
 
 /**
- * Register export commands
+ * Ask for the format or template and the scope of an export, remember the answers, then export
+ */
+async function exportNotesInteractive(
+    workspaceManager: WorkspaceManager,
+    filterState: NoteFilterState,
+    memento: vscode.Memento
+): Promise<void> {
+    const state = getExportState(memento);
+
+    const choice = await pickExportChoice(workspaceManager, state);
+    if (!choice) {
+        return;
+    }
+    const scope = await pickExportScope(workspaceManager, filterState, state);
+    if (!scope) {
+        return;
+    }
+
+    const recentTemplates = choice.template
+        ? [choice.template, ...(state.recentTemplates ?? []).filter(t => t !== choice.template)].slice(0, MAX_RECENT_TEMPLATES)
+        : state.recentTemplates;
+    await updateExportState(memento, { ...scope, format: choice.format, template: choice.template, recentTemplates });
+
+    await exportNotes(workspaceManager, filterState, memento, choice);
+}
+
+/**
+ * Register export commands. The format commands export the scope last chosen with Export Notes...
  */
 export function registerExportCommands(
     context: vscode.ExtensionContext,
-    storage: NoteStorage
+    workspaceManager: WorkspaceManager,
+    filterState: NoteFilterState
 ): void {
+    const memento = context.workspaceState;
+
+    const exportCommand = vscode.commands.registerCommand(
+        'reviewNotes.export',
+        () => exportNotesInteractive(workspaceManager, filterState, memento)
+    );
+
     const exportMdCommand = vscode.commands.registerCommand(
         'reviewNotes.exportMarkdown',
-        () => exportToMarkdown(storage)
+        () => exportNotes(workspaceManager, filterState, memento, { format: 'md' })
     );
 
     const exportHtmlCommand = vscode.commands.registerCommand(
         'reviewNotes.exportHtml',
-        () => exportToHtml(storage)
+        () => exportNotes(workspaceManager, filterState, memento, { format: 'html' })
     );
 
-    context.subscriptions.push(exportMdCommand, exportHtmlCommand);
+    const exportJsonCommand = vscode.commands.registerCommand(
+        'reviewNotes.exportJson',
+        () => exportNotes(workspaceManager, filterState, memento, { format: 'json' })
+    );
+
+    const exportCsvCommand = vscode.commands.registerCommand(
+        'reviewNotes.exportCsv',
+        () => exportNotes(workspaceManager, filterState, memento, { format: 'csv' })
+    );
+
+    const exportSarifCommand = vscode.commands.registerCommand(
+        'reviewNotes.exportSarif',
+        () => exportNotes(workspaceManager, filterState, memento, { format: 'sarif' })
+    );
+
+    context.subscriptions.push(
+        exportCommand,
+        exportMdCommand,
+        exportHtmlCommand,
+        exportJsonCommand,
+        exportCsvCommand,
+        exportSarifCommand
+    );
 }
@@ -0,0 +1,275 @@
+import * as path from 'path';
+import {
+    Note,
+    STATUS_CONFIG,
+    getPriorityConfig,
+    getCategoryConfig,
+    formatNoteRange
+} from './utils';
+import { summarizeNotes, countNotes, escapeHtml } from './exportFormats';
+
+/**
+ * Parsed template: text, {{values}} and {{#each}} / {{#if}} / {{#unless}} blocks
+ */
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'value'; path: string; raw: boolean }
+    | { type: 'each'; path: string; body: TemplateNode[] }
+    | { type: 'if'; path: string; negate: boolean; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+/**
+ * Error in a template, with the line it was found on
+ */
+export class TemplateError extends Error {}
+
+const TAG_PATTERN = /\{\{!--[\s\S]*?--\}\}|\{\{![\s\S]*?\}\}|\{\{\{\s*([\w.@]+)\s*\}\}\}|\{\{\s*([#/]?)\s*([\w.@]*)\s*([\w.@]*)\s*\}\}/g;
+
+/**
+ * Parse a Handlebars-like template
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: { node: Extract<TemplateNode, { type: 'each' | 'if' }>; name: string; line: number; inElse: boolean }[] = [];
+    const lineOf = (index: number) => template.slice(0, index).split('\n').length;
+    const current = () => {
+        const open = stack[stack.length - 1];
+        if (!open) {
+            return root;
+        }
+        return open.node.type === 'if' && open.inElse ? open.node.elseBody : open.node.body;
+    };
+
+    let lastIndex = 0;
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        const [tag, rawPath, marker, word, argument] = match;
+        const index = match.index ?? 0;
+        let textEnd = index;
+        let tagEnd = index + tag.length;
+
+        // Like Handlebars, a block or comment tag alone on its line leaves no blank line behind
+        const isBlockTag = tag.startsWith('{{!') || !!marker || (word === 'else' && !argument);
+        const lineStart = template.lastIndexOf('\n', index - 1) + 1;
+        const lineEnd = /^[ \t]*(\r?\n|$)/.exec(template.slice(tagEnd));
+        if (isBlockTag && lineStart >= lastIndex && /^[ \t]*$/.test(template.slice(lineStart, index)) && lineEnd) {
+            textEnd = lineStart;
+            tagEnd += lineEnd[0].length;
+        }
+
+        if (textEnd > lastIndex) {
+            current().push({ type: 'text', text: template.slice(lastIndex, textEnd) });
+        }
+        lastIndex = tagEnd;
+
+        if (tag.startsWith('{{!')) {
+            continue;
+        }
+        if (rawPath) {
+            current().push({ type: 'value', path: rawPath, raw: true });
+            continue;
+        }
+
+        const line = lineOf(index);
+        if (marker === '#') {
+            if (!argument) {
+                throw new TemplateError(`Line ${line}: {{#${word}}} needs a field name`);
+            }
+            if (word !== 'each' && word !== 'if' && word !== 'unless') {
+                throw new TemplateError(`Line ${line}: unknown block {{#${word}}}`);
+            }
+            const node: Extract<TemplateNode, { type: 'each' | 'if' }> = word === 'each'
+                ? { type: 'each', path: argument, body: [] }
+                : { type: 'if', path: argument, negate: word === 'unless', body: [], elseBody: [] };
+            current().push(node);
+            stack.push({ node, name: word, line, inElse: false });
+        } else if (marker === '/') {
+            const open = stack.pop();
+            if (!open || open.name !== word) {
+                throw new TemplateError(`Line ${line}: {{/${word}}} does not close ${open ? `{{#${open.name}}} from line ${open.line}` : 'any block'}`);
+            }
+        } else if (word === 'else' && !argument) {
+            const open = stack[stack.length - 1];
+            if (!open || open.node.type !== 'if' || open.inElse) {
+                throw new TemplateError(`Line ${line}: {{else}} outside of {{#if}} or {{#unless}}`);
+            }
+            open.inElse = true;
+        } else if (word && !argument) {
+            current().push({ type: 'value', path: word, raw: false });
+        } else {
+            throw new TemplateError(`Line ${line}: cannot read ${tag}`);
+        }
+    }
+
+    if (stack.length > 0) {
+        const open = stack[stack.length - 1];
+        throw new TemplateError(`Line ${open.line}: {{#${open.name}}} is never closed`);
+    }
+    if (lastIndex < template.length) {
+        root.push({ type: 'text', text: template.slice(lastIndex) });
+    }
+
+    return root;
+}
+
+/**
+ * Scope while rendering: the object being rendered and its position in an {{#each}}
+ */
+interface TemplateFrame {
+    value: unknown;
+    index?: number;
+}
+
+/**
+ * Look a field up in the innermost object that has it, so notes can use fields of their file or report
+ */
+function lookup(frames: TemplateFrame[], fieldPath: string): unknown {
+    if (fieldPath === 'this') {
+        return frames[frames.length - 1].value;
+    }
+    if (fieldPath === '@index') {
+        return frames[frames.length - 1].index;
+    }
+
+    const [first, ...rest] = fieldPath.replace(/^this\./, '').split('.');
+    const searched = fieldPath.startsWith('this.') ? frames.slice(-1) : frames;
+    for (let i = searched.length - 1; i >= 0; i--) {
+        const value = searched[i].value;
+        if (value && typeof value === 'object' && first in value) {
+            return rest.reduce<unknown>(
+                (result, key) => result && typeof result === 'object' ? (result as Record<string, unknown>)[key] : undefined,
+                (value as Record<string, unknown>)[first]
+            );
+        }
+    }
+    return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], frames: TemplateFrame[], escape: (text: string) => string): string {
+    let output = '';
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.text;
+                break;
+            case 'value': {
+                const value = lookup(frames, node.path);
+                const text = value === undefined || value === null ? '' : String(value);
+                output += node.raw ? text : escape(text);
+                break;
+            }
+            case 'each': {
+                const items = lookup(frames, node.path);
+                if (Array.isArray(items)) {
+                    items.forEach((item, index) => {
+                        output += renderNodes(node.body, [...frames, { value: item, index }], escape);
+                    });
+                }
+                break;
+            }
+            case 'if': {
+                const condition = isTruthy(lookup(frames, node.path)) !== node.negate;
+                output += renderNodes(condition ? node.body : node.elseBody, frames, escape);
+                break;
+            }
+        }
+    }
+    return output;
+}
+
+/**
+ * Render a Handlebars-like template: {{field}}, {{{field}}} (never escaped),
+ * {{#each list}}…{{/each}}, {{#if field}}…{{else}}…{{/if}}, {{#unless field}}…{{/unless}}
+ * and {{! comments }}. Values are HTML-escaped when escapeValues is set.
+ */
+export function renderTemplate(template: string, context: object, escapeValues: boolean): string {
+    return renderNodes(parseTemplate(template), [{ value: context }], escapeValues ? escapeHtml : text => text);
+}
+
+/**
+ * Whether values rendered into a template file should be HTML-escaped, judging by its name
+ */
+export function isHtmlTemplate(templatePath: string): boolean {
+    return /\.html?$/i.test(getTemplateOutputExtension(templatePath));
+}
+
+/**
+ * Extension of the file a template produces: audit.md.hbs and audit.md both produce .md
+ */
+export function getTemplateOutputExtension(templatePath: string): string {
+    const name = path.basename(templatePath).replace(/\.(hbs|handlebars|tmpl|template)$/i, '');
+    return path.extname(name) || '.txt';
+}
+
+/**
+ * Fields available to templates for one note
+ */
+function noteFields(filePath: string, note: Note, resolvePath: (filePath: string) => string) {
+    const category = getCategoryConfig(note.category);
+    const priority = getPriorityConfig(note.priority);
+    return {
+        id: note.id,
+        file: filePath,
+        absolutePath: resolvePath(filePath),
+        line: note.line + 1,
+        endLine: note.endLine + 1,
+        range: formatNoteRange(note),
+        category: category.label,
+        categoryId: category.id,
+        categoryIcon: category.icon,
+        priority: priority.label,
+        priorityId: priority.id,
+        priorityIcon: priority.icon,
+        status: STATUS_CONFIG[note.status].label,
+        statusId: note.status,
+        statusIcon: STATUS_CONFIG[note.status].icon,
+        open: note.status === 'open',
+        orphaned: !!note.orphaned,
+        author: note.author,
+        date: new Date(note.timestamp).toLocaleString(),
+        isoDate: new Date(note.timestamp).toISOString(),
+        text: note.text,
+        replies: note.replies.map(reply => ({
+            author: reply.author,
+            date: new Date(reply.timestamp).toLocaleString(),
+            isoDate: new Date(reply.timestamp).toISOString(),
+            text: reply.text,
+        })),
+    };
+}
+
+/**
+ * Data passed to export templates: the report, its files sorted by path and their notes sorted by line
+ */
+export function buildTemplateContext(
+    allNotes: Map<string, Note[]>,
+    options: { resolvePath: (filePath: string) => string; scope: string; generated?: Date }
+): object {
+    const generated = options.generated ?? new Date();
+    const summary = summarizeNotes(allNotes);
+
+    const files = Array.from(allNotes.entries())
+        .filter(([, notes]) => notes.length > 0)
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([filePath, notes]) => ({
+            path: filePath,
+            absolutePath: options.resolvePath(filePath),
+            count: notes.length,
+            notes: [...notes]
+                .sort((a, b) => a.line - b.line)
+                .map(note => noteFields(filePath, note, options.resolvePath)),
+        }));
+
+    return {
+        scope: options.scope,
+        generated: generated.toLocaleString(),
+        generatedIso: generated.toISOString(),
+        total: countNotes(allNotes),
+        priorities: summary.priorities.map(({ config, count }) => ({ id: config.id, label: config.label, icon: config.icon, count })),
+        categories: summary.categories.map(({ config, count }) => ({ id: config.id, label: config.label, icon: config.icon, count })),
+        files,
+        notes: files.flatMap(file => file.notes),
+    };
+}
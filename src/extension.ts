@@ -1,14 +1,31 @@
 import * as vscode from 'vscode';
-import { NoteStorage } from './noteStorage';
 import { ReviewNotesProvider } from './reviewNotesProvider';
 import { NotesTreeProvider, registerTreeViewCommands } from './notesTreeProvider';
 import { registerExportCommands } from './exportProvider';
-import { WorkspaceManager, getCurrentWorkspaceRoot } from './workspaceManager';
+import { registerImportCommands } from './importProvider';
+import { registerStorageCommands } from './storageCommands';
+import { WorkspaceManager } from './workspaceManager';
+import { LineTracker } from './lineTracker';
+import { FileTracker, registerMissingFileCommands } from './fileTracker';
+import { NoteDecorator } from './noteDecorations';
+import { NoteDiagnostics } from './noteDiagnostics';
+import { NoteCodeLensProvider, registerCodeLens } from './noteCodeLens';
+import { registerNavigationCommands } from './noteNavigation';
+import { NoteStatusBar, registerStatusBar } from './noteStatusBar';
+import { registerFindNoteCommand } from './noteQuickPick';
+import { NoteFilterState, registerFilterCommands } from './noteFilter';
+import { applyNoteTypes, watchNoteTypes } from './noteTypes';
 
-let storage: NoteStorage | undefined;
 let provider: ReviewNotesProvider | undefined;
 let workspaceManager: WorkspaceManager | undefined;
 let treeProvider: NotesTreeProvider | undefined;
+let lineTracker: LineTracker | undefined;
+let fileTracker: FileTracker | undefined;
+let decorator: NoteDecorator | undefined;
+let diagnostics: NoteDiagnostics | undefined;
+let codeLensProvider: NoteCodeLensProvider | undefined;
+let statusBar: NoteStatusBar | undefined;
+let filterState: NoteFilterState | undefined;
 
 /**
  * Extension activation
@@ -16,45 +33,77 @@ let treeProvider: NotesTreeProvider | undefined;
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Review Notes: Extension is activating...');
 
-    // Get workspace root
-    const workspaceRoot = getCurrentWorkspaceRoot();
-    if (!workspaceRoot) {
+    if (!vscode.workspace.workspaceFolders?.length) {
         console.log('Review Notes: No workspace folder open');
         vscode.window.showWarningMessage('Review Notes: No workspace folder open');
         return;
     }
 
-    console.log(`Review Notes: Workspace root is ${workspaceRoot}`);
-
-    // Initialize storage
-    storage = new NoteStorage(workspaceRoot);
-    await storage.load();
-    console.log('Review Notes: Storage loaded');
+    // Initialize one storage per workspace folder
+    workspaceManager = new WorkspaceManager();
+    await workspaceManager.initialize();
+    context.subscriptions.push(workspaceManager);
+    applyNoteTypes(workspaceManager);
+    console.log(`Review Notes: Storage loaded for ${workspaceManager.getStorages().length} workspace folder(s)`);
 
     // Initialize provider (pass context for command registration)
-    provider = new ReviewNotesProvider(storage, context);
+    provider = new ReviewNotesProvider(workspaceManager, context);
     console.log('Review Notes: Provider initialized');
 
-    // Initialize tree view
-    treeProvider = new NotesTreeProvider(storage);
+    // Keep note lines in sync with document edits
+    lineTracker = new LineTracker(workspaceManager, provider);
+    context.subscriptions.push(lineTracker);
+
+    // Keep notes attached to renamed and moved files
+    fileTracker = new FileTracker(workspaceManager, provider);
+    context.subscriptions.push(fileTracker);
+
+    // Mark noted lines in the gutter and overview ruler
+    decorator = new NoteDecorator(workspaceManager);
+    context.subscriptions.push(decorator);
+
+    // Publish notes to the Problems panel
+    diagnostics = new NoteDiagnostics(workspaceManager);
+    context.subscriptions.push(diagnostics);
+
+    // Summarize notes above the symbols that contain them
+    codeLensProvider = registerCodeLens(context, workspaceManager, provider);
+
+    // Show note counts in the status bar
+    statusBar = registerStatusBar(context, workspaceManager);
+
+    // Initialize tree view (with the filter remembered for this workspace)
+    filterState = new NoteFilterState(context.workspaceState);
+    treeProvider = new NotesTreeProvider(workspaceManager, filterState, context.workspaceState);
     const treeView = vscode.window.createTreeView('reviewNotesExplorer', {
         treeDataProvider: treeProvider,
         showCollapseAll: true
     });
-    context.subscriptions.push(treeView);
+    context.subscriptions.push(treeProvider, treeView);
     console.log('Review Notes: Tree view initialized');
 
-    // Initialize workspace manager
-    workspaceManager = new WorkspaceManager();
-
     // Register main commands
     registerMainCommands(context);
 
     // Register tree view commands
-    registerTreeViewCommands(context, storage, provider);
+    registerTreeViewCommands(context, workspaceManager, provider, treeProvider);
+
+    // Register next/previous note commands
+    registerNavigationCommands(context, workspaceManager);
+
+    // Register the Find Note quick pick
+    registerFindNoteCommand(context, workspaceManager);
+
+    // Register filter commands
+    registerFilterCommands(context, filterState, workspaceManager, treeView);
 
     // Register export commands
-    registerExportCommands(context, storage);
+    registerExportCommands(context, workspaceManager, filterState);
+
+    // Register import commands
+    registerImportCommands(context, workspaceManager, provider);
+    registerStorageCommands(context, workspaceManager);
+    registerMissingFileCommands(context, workspaceManager, provider);
 
     // Set up event listeners
     setupEventListeners(context);
@@ -78,8 +127,12 @@ function registerMainCommands(context: vscode.ExtensionContext) {
             return;
         }
 
-        const line = editor.selection.active.line;
-        await provider.addNoteAtLine(editor.document.uri, line);
+        // Note the exact selection, or the cursor line when nothing is selected
+        const selection = editor.selection;
+        const range = selection.isEmpty
+            ? new vscode.Range(selection.active.line, 0, selection.active.line, 0)
+            : new vscode.Range(selection.start, selection.end);
+        await provider.addNoteAtRange(editor.document.uri, range);
     });
 
     // Refresh tree view command
@@ -92,11 +145,20 @@ function registerMainCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(addNoteCommand, refreshCommand);
 }
 
+/**
+ * Render notes in every visible editor
+ */
+function renderVisibleEditors() {
+    for (const editor of vscode.window.visibleTextEditors) {
+        provider?.renderNotesForFile(editor.document.uri);
+    }
+}
+
 /**
  * Set up event listeners
  */
 function setupEventListeners(context: vscode.ExtensionContext) {
-    if (!storage || !provider || !workspaceManager) {
+    if (!provider || !workspaceManager) {
         return;
     }
 
@@ -108,48 +170,30 @@ function setupEventListeners(context: vscode.ExtensionContext) {
         }
     });
 
-    // Watch for workspace changes
-    const workspaceChangeListener = workspaceManager.onChange(async (newRoot) => {
-        if (newRoot && storage && provider) {
-            console.log(`Review Notes: Workspace changed to ${newRoot}`);
-
-            // Dispose old storage
-            storage.dispose();
-            provider.clearAllThreads();
-
-            // Create new storage for new workspace
-            storage = new NoteStorage(newRoot);
-            await storage.load();
-
-            // Update tree provider
-            if (treeProvider) {
-                treeProvider = new NotesTreeProvider(storage);
-            }
-
-            // Render notes for active editor
-            if (vscode.window.activeTextEditor) {
-                provider.renderNotesForFile(vscode.window.activeTextEditor.document.uri);
-            }
-        }
+    // Workspace folders added or removed: drop threads of removed folders, show notes of new ones
+    const foldersChangeListener = workspaceManager.onDidChangeFolders(() => {
+        provider?.clearAllThreads();
+        renderVisibleEditors();
     });
 
-    // Watch for external file changes
-    const fileWatcherDisposable = storage.watchFile(() => {
-        console.log('Review Notes: .notes.json changed externally');
-        // Reload notes for active editor when .notes.json changes externally
-        if (vscode.window.activeTextEditor && provider) {
-            provider.renderNotesForFile(vscode.window.activeTextEditor.document.uri);
-        }
-        // Refresh tree view
-        if (treeProvider) {
-            treeProvider.refresh();
-        }
+    // Reload notes in open editors when a .notes.json changes externally
+    const reloadListener = workspaceManager.onDidReload(() => renderVisibleEditors());
+
+    // Redraw when categories or priorities are redefined
+    const noteTypesListener = watchNoteTypes(workspaceManager, () => {
+        treeProvider?.refresh();
+        provider?.refreshAllThreads();
+        decorator?.reset();
+        diagnostics?.update();
+        codeLensProvider?.refresh();
+        statusBar?.update();
     });
 
     context.subscriptions.push(
         editorChangeListener,
-        workspaceChangeListener,
-        fileWatcherDisposable
+        foldersChangeListener,
+        reloadListener,
+        noteTypesListener
     );
 }
 
@@ -161,8 +205,8 @@ export function deactivate() {
     if (provider) {
         provider.dispose();
     }
-    if (storage) {
-        storage.dispose();
+    if (workspaceManager) {
+        workspaceManager.dispose();
     }
     console.log('Review Notes: Deactivated');
 }
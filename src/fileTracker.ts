@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAbsolutePath } from './utils';
+import { ReviewNotesProvider } from './reviewNotesProvider';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * A file with notes, as passed from the Missing Files node of the Notes Explorer
+ */
+interface MissingFileArg {
+    filePath: string;
+    workspaceRoot: string;
+}
+
+/**
+ * Keeps notes attached to their files when files or folders are renamed or moved.
+ * Notes of deleted files are kept, and shown under Missing Files in the Notes Explorer
+ * until they are reattached or deleted.
+ */
+export class FileTracker implements vscode.Disposable {
+    private workspaceManager: WorkspaceManager;
+    private provider: ReviewNotesProvider;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(workspaceManager: WorkspaceManager, provider: ReviewNotesProvider) {
+        this.workspaceManager = workspaceManager;
+        this.provider = provider;
+
+        this.disposables.push(
+            vscode.workspace.onDidRenameFiles(event => this.handleRename(event)),
+            vscode.workspace.onDidDeleteFiles(event => this.handleDelete(event))
+        );
+    }
+
+    /**
+     * Move the notes of renamed files, and of files under renamed folders, to their new paths.
+     * Files moved to another workspace folder take their notes along.
+     */
+    private handleRename(event: vscode.FileRenameEvent): void {
+        let moved = 0;
+
+        for (const { oldUri, newUri } of event.files) {
+            this.workspaceManager.getStorage(newUri)?.forgetFileExistence(newUri);
+            const source = this.workspaceManager.getStorage(oldUri);
+            if (oldUri.scheme !== 'file' || !source) {
+                continue;
+            }
+            source.forgetFileExistence(oldUri);
+
+            for (const [oldPath, notes] of source.takeNotes(oldUri).entries()) {
+                const newPath = path.join(newUri.fsPath, path.relative(oldUri.fsPath, oldPath));
+                const target = this.workspaceManager.getStorage(vscode.Uri.file(newPath));
+
+                // Moved out of the workspace: keep the notes at the old path, as for a deleted file
+                (target ?? source).putNotes(vscode.Uri.file(target ? newPath : oldPath), notes);
+                this.provider.clearThreadsForFile(vscode.Uri.file(oldPath));
+                moved += target ? notes.length : 0;
+            }
+        }
+
+        if (moved > 0) {
+            vscode.window.visibleTextEditors.forEach(editor => this.provider.renderNotesForFile(editor.document.uri));
+            console.log(`Review Notes: Moved ${moved} notes to renamed files`);
+        }
+    }
+
+    /**
+     * Tell the user where the notes of deleted files went, offering to delete them
+     */
+    private async handleDelete(event: vscode.FileDeleteEvent): Promise<void> {
+        const missing: MissingFileArg[] = [];
+        for (const storage of this.workspaceManager.getStorages()) {
+            event.files.forEach(uri => storage.forgetFileExistence(uri));
+            const deleted = storage.getMissingFiles().filter(filePath => {
+                const absolutePath = getAbsolutePath(filePath, storage.getWorkspaceRoot());
+                return event.files.some(uri => absolutePath === uri.fsPath || absolutePath.startsWith(uri.fsPath + path.sep));
+            });
+            missing.push(...deleted.map(filePath => ({ filePath, workspaceRoot: storage.getWorkspaceRoot() })));
+        }
+
+        if (missing.length === 0) {
+            return;
+        }
+
+        missing.forEach(({ filePath, workspaceRoot }) =>
+            this.provider.clearThreadsForFile(vscode.Uri.file(getAbsolutePath(filePath, workspaceRoot))));
+
+        const noteCount = missing.reduce((sum, { filePath, workspaceRoot }) =>
+            sum + (this.workspaceManager.getStorageForRoot(workspaceRoot)?.getAllNotes().get(filePath)?.length ?? 0), 0);
+        const answer = await vscode.window.showInformationMessage(
+            `${noteCount} review note${noteCount === 1 ? ' belongs' : 's belong'} to deleted files and ${noteCount === 1 ? 'was' : 'were'} kept under Missing Files in the Notes Explorer.`,
+            'Delete Notes'
+        );
+
+        if (answer === 'Delete Notes') {
+            missing.forEach(({ filePath, workspaceRoot }) =>
+                this.workspaceManager.getStorageForRoot(workspaceRoot)?.deleteNotesForFile(filePath));
+        }
+    }
+
+    /**
+     * Dispose event listeners
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/**
+ * Attach the notes of a missing file to a file the user picks
+ */
+async function reattachNotes(workspaceManager: WorkspaceManager, provider: ReviewNotesProvider, item: MissingFileArg): Promise<void> {
+    const source = workspaceManager.getStorageForRoot(item.workspaceRoot);
+    const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(path.dirname(getAbsolutePath(item.filePath, item.workspaceRoot))),
+        openLabel: 'Reattach Notes',
+        title: `Reattach notes of ${item.filePath}`,
+    });
+
+    if (!source || !uris || uris.length === 0) {
+        return;
+    }
+
+    const target = workspaceManager.getStorage(uris[0]);
+    if (!target) {
+        vscode.window.showWarningMessage('Review Notes: Notes can only be attached to files in a workspace folder');
+        return;
+    }
+
+    const notes = source.takeNotes(vscode.Uri.file(getAbsolutePath(item.filePath, item.workspaceRoot)));
+    target.putNotes(uris[0], [...notes.values()].flat());
+
+    // Opening the file relocates the notes to their code
+    await vscode.window.showTextDocument(uris[0]);
+    provider.renderNotesForFile(uris[0]);
+}
+
+/**
+ * Delete the notes of every file that no longer exists, after confirmation
+ */
+async function cleanUpMissingFiles(workspaceManager: WorkspaceManager): Promise<void> {
+    const missing = workspaceManager.getStorages().flatMap(storage =>
+        storage.getMissingFiles().map(filePath => ({ storage, filePath, count: storage.getAllNotes().get(filePath)?.length ?? 0 })));
+
+    if (missing.length === 0) {
+        vscode.window.showInformationMessage('Review Notes: All notes belong to existing files');
+        return;
+    }
+
+    const noteCount = missing.reduce((sum, { count }) => sum + count, 0);
+    const answer = await vscode.window.showWarningMessage(
+        `Delete ${noteCount} note${noteCount === 1 ? '' : 's'} on ${missing.length} missing file${missing.length === 1 ? '' : 's'}?`,
+        { modal: true, detail: missing.map(({ filePath, count }) => `${filePath} (${count})`).join('\n') },
+        'Delete'
+    );
+
+    if (answer === 'Delete') {
+        missing.forEach(({ storage, filePath }) => storage.deleteNotesForFile(filePath));
+        vscode.window.showInformationMessage(`Deleted ${noteCount} note${noteCount === 1 ? '' : 's'} for missing files`);
+    }
+}
+
+/**
+ * Register commands for notes of missing files
+ */
+export function registerMissingFileCommands(
+    context: vscode.ExtensionContext,
+    workspaceManager: WorkspaceManager,
+    provider: ReviewNotesProvider
+): void {
+    const reattachCommand = vscode.commands.registerCommand(
+        'reviewNotes.reattachNotes',
+        (item: MissingFileArg) => reattachNotes(workspaceManager, provider, item)
+    );
+
+    const deleteCommand = vscode.commands.registerCommand(
+        'reviewNotes.deleteMissingFileNotes',
+        async (item: MissingFileArg) => {
+            const count = workspaceManager.getStorageForRoot(item.workspaceRoot)?.deleteNotesForFile(item.filePath) ?? 0;
+            vscode.window.showInformationMessage(`Deleted ${count} note${count === 1 ? '' : 's'} from ${item.filePath}`);
+        }
+    );
+
+    const cleanUpCommand = vscode.commands.registerCommand(
+        'reviewNotes.cleanUpMissingFiles',
+        () => cleanUpMissingFiles(workspaceManager)
+    );
+
+    context.subscriptions.push(reattachCommand, deleteCommand, cleanUpCommand);
+}
@@ -0,0 +1,296 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    Note,
+    NoteReply,
+    NoteStatus,
+    STATUS_CONFIG,
+    getPriorities,
+    getCategories,
+    generateId,
+    migrateNote,
+    normalizeFilePath,
+    parseNoteRange
+} from './utils';
+import { NoteStorage } from './noteStorage';
+import { NotesData, NOTE_TYPES_KEY } from './notesFormat';
+import { WorkspaceManager, getWorkspaceFolderName } from './workspaceManager';
+import { ReviewNotesProvider } from './reviewNotesProvider';
+
+/**
+ * Parse a date written by toLocaleString, falling back to now
+ */
+function parseDate(text: string): number {
+    const timestamp = Date.parse(text);
+    return isNaN(timestamp) ? Date.now() : timestamp;
+}
+
+/**
+ * Drop surrounding blank lines and the section separator written after each file
+ */
+function trimBlock(lines: string[]): string {
+    const block = [...lines];
+    const trimEnd = () => {
+        while (block.length > 0 && block[block.length - 1].trim() === '') {
+            block.pop();
+        }
+    };
+
+    trimEnd();
+    if (block[block.length - 1] === '---') {
+        block.pop();
+        trimEnd();
+    }
+    while (block.length > 0 && block[0].trim() === '') {
+        block.shift();
+    }
+
+    return block.join('\n');
+}
+
+/**
+ * Resolve the "📋 TODO 🔴" part of a note header to a category and priority
+ */
+function parseNoteType(text: string): { category: string; priority: string } {
+    const parts = text.trim().split(/\s+/);
+    const categoryIcon = parts[0];
+    const priorityIcon = parts.length > 2 ? parts[parts.length - 1] : '';
+    const label = parts.slice(1, parts.length > 2 ? -1 : undefined).join(' ');
+
+    const category = getCategories().find(c => c.label.toLowerCase() === label.toLowerCase())
+        ?? getCategories().find(c => c.icon === categoryIcon);
+    const priority = getPriorities().find(p => p.icon === priorityIcon);
+
+    return {
+        category: category?.id ?? label.toLowerCase(),
+        priority: priority?.id ?? 'medium',
+    };
+}
+
+/**
+ * Fill in author, timestamp and status from a "> *author • date • status*" line
+ */
+function applyNoteMeta(note: Note, meta: string): void {
+    const [author, date, status] = meta.split(' • ');
+    note.author = author || note.author;
+    note.timestamp = date ? parseDate(date) : note.timestamp;
+
+    const statusId = (Object.keys(STATUS_CONFIG) as NoteStatus[])
+        .find(s => status === `${STATUS_CONFIG[s].icon} ${STATUS_CONFIG[s].label}`);
+    note.status = statusId ?? 'open';
+}
+
+/**
+ * Parse a report written by the Markdown export back into notes per file.
+ * Notes get new ids; duplicates are detected by location and text on merge.
+ */
+export function parseMarkdownExport(content: string): Map<string, Note[]> {
+    const result = new Map<string, Note[]>();
+    let fileNotes: Note[] | undefined;
+    let note: Note | undefined;
+    let reply: NoteReply | undefined;
+    let block: string[] = [];
+    let previousLine = '';
+    // Lines of fenced code blocks (in note text or source excerpts) are never headings or author lines
+    let fence: string | undefined;
+    let fencedLines = new Set<number>();
+
+    const flush = () => {
+        if (reply) {
+            reply.text = trimBlock(block);
+        } else if (note) {
+            const metaIndex = block.map((line, i) => !fencedLines.has(i) && /^> \*(.*)\*$/.test(line)).lastIndexOf(true);
+            if (metaIndex > -1) {
+                applyNoteMeta(note, /^> \*(.*)\*$/.exec(block[metaIndex])![1]);
+            }
+            note.text = trimBlock(metaIndex > -1 ? block.slice(0, metaIndex) : block);
+        }
+        block = [];
+        fencedLines = new Set();
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+        const fenceMatch = /^ {0,3}(`{3,}|~{3,})(.*)$/.exec(line);
+        const inFence = fence !== undefined;
+        if (fence === undefined && fenceMatch) {
+            fence = fenceMatch[1];
+        } else if (fence !== undefined && fenceMatch && fenceMatch[1][0] === fence[0]
+            && fenceMatch[1].length >= fence.length && fenceMatch[2].trim() === '') {
+            // A fence is closed by the same character, at least as many times, alone on its line
+            fence = undefined;
+        }
+        if (inFence || fence !== undefined) {
+            if (note) {
+                fencedLines.add(block.length);
+                block.push(line);
+            }
+            continue;
+        }
+
+        const fileMatch = /^### (.+)$/.exec(line);
+        const noteMatch = /^#### (.+?) - (.+)$/.exec(line);
+        const replyMatch = /^##### Reply - (.+?) • (.+)$/.exec(line);
+        const range = noteMatch ? parseNoteRange(noteMatch[1]) : undefined;
+
+        // File headings follow the separator of the previous file (or start the notes section)
+        if (fileMatch && (!fileNotes || previousLine === '---')) {
+            flush();
+            fileNotes = result.get(fileMatch[1]) || [];
+            result.set(fileMatch[1], fileNotes);
+            note = undefined;
+            reply = undefined;
+        } else if (fileNotes && noteMatch && range) {
+            flush();
+            const { category, priority } = parseNoteType(noteMatch[2]);
+            note = migrateNote({ id: generateId(), ...range, text: '', author: 'Unknown', priority, category });
+            fileNotes.push(note);
+            reply = undefined;
+        } else if (note && replyMatch) {
+            flush();
+            reply = { id: generateId(), text: '', author: replyMatch[1], timestamp: parseDate(replyMatch[2]) };
+            note.replies.push(reply);
+        } else if (note) {
+            block.push(line);
+        }
+
+        if (line.trim() !== '') {
+            previousLine = line;
+        }
+    }
+    flush();
+
+    // Drop files whose section held no notes
+    for (const [filePath, notes] of result.entries()) {
+        if (notes.length === 0) {
+            result.delete(filePath);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Parse a .notes.json file from another checkout
+ */
+export function parseNotesFile(content: string): Map<string, Note[]> {
+    const data = JSON.parse(content) as NotesData;
+    const result = new Map<string, Note[]>();
+
+    for (const [filePath, notes] of Object.entries(data)) {
+        // Categories and priorities of the other checkout are not imported
+        if (filePath !== NOTE_TYPES_KEY && Array.isArray(notes)) {
+            result.set(filePath, notes.map(note => migrateNote(note)));
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Split imported notes per workspace folder. In multi-root workspaces, paths starting with a
+ * folder name (as written by the exports) go to that folder; the rest go to a folder the user picks.
+ */
+async function assignToFolders(
+    workspaceManager: WorkspaceManager,
+    imported: Map<string, Note[]>
+): Promise<Map<NoteStorage, Map<string, Note[]>> | undefined> {
+    const storages = workspaceManager.getStorages();
+    const assigned = new Map<NoteStorage, Map<string, Note[]>>();
+    let fallback: NoteStorage | undefined = storages.length === 1 ? storages[0] : undefined;
+
+    for (const [filePath, notes] of imported.entries()) {
+        const normalized = normalizeFilePath(filePath).replace(/^\.\//, '');
+        const [folderName, ...rest] = normalized.split('/');
+        let storage = storages.length > 1 && rest.length > 0
+            ? storages.find(s => getWorkspaceFolderName(s.getWorkspaceRoot()) === folderName)
+            : undefined;
+        let relativePath = storage ? rest.join('/') : normalized;
+
+        if (!storage) {
+            if (!fallback) {
+                const folder = await vscode.window.showWorkspaceFolderPick({
+                    placeHolder: 'Select the workspace folder to import the notes into',
+                });
+                fallback = folder ? workspaceManager.getStorage(folder.uri) : undefined;
+                if (!fallback) {
+                    return undefined;
+                }
+            }
+            storage = fallback;
+            relativePath = normalized;
+        }
+
+        const storageNotes = assigned.get(storage) || new Map<string, Note[]>();
+        storageNotes.set(`./${relativePath}`, notes);
+        assigned.set(storage, storageNotes);
+    }
+
+    return assigned;
+}
+
+/**
+ * Import notes from a Markdown export or a .notes.json file
+ */
+export async function importNotes(workspaceManager: WorkspaceManager, provider: ReviewNotesProvider): Promise<void> {
+    const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Import',
+        filters: { 'Review Notes': ['md', 'json'] }
+    });
+
+    if (!uris || uris.length === 0) {
+        return;
+    }
+
+    let imported: Map<string, Note[]>;
+    try {
+        const content = await fs.promises.readFile(uris[0].fsPath, 'utf-8');
+        imported = path.extname(uris[0].fsPath).toLowerCase() === '.json'
+            ? parseNotesFile(content)
+            : parseMarkdownExport(content);
+    } catch (error) {
+        console.error('Failed to read notes for import:', error);
+        vscode.window.showErrorMessage(`Could not read review notes from ${path.basename(uris[0].fsPath)}`);
+        return;
+    }
+
+    if (imported.size === 0) {
+        vscode.window.showWarningMessage('No review notes found to import');
+        return;
+    }
+
+    const assigned = await assignToFolders(workspaceManager, imported);
+    if (!assigned) {
+        return;
+    }
+
+    let added = 0;
+    let skipped = 0;
+    for (const [storage, notes] of assigned.entries()) {
+        const result = storage.importNotes(notes);
+        added += result.added;
+        skipped += result.skipped;
+    }
+
+    provider.refreshAllThreads();
+
+    const duplicates = skipped > 0 ? ` (${skipped} duplicate${skipped === 1 ? '' : 's'} skipped)` : '';
+    vscode.window.showInformationMessage(`Imported ${added} note${added === 1 ? '' : 's'}${duplicates}`);
+}
+
+/**
+ * Register import commands
+ */
+export function registerImportCommands(
+    context: vscode.ExtensionContext,
+    workspaceManager: WorkspaceManager,
+    provider: ReviewNotesProvider
+): void {
+    const importCommand = vscode.commands.registerCommand(
+        'reviewNotes.importNotes',
+        () => importNotes(workspaceManager, provider)
+    );
+
+    context.subscriptions.push(importCommand);
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { ReviewNotesProvider } from './reviewNotesProvider';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * Compute where a position ends up after a single text change.
+ * Positions before the change stay put, positions after it move with the text,
+ * and positions inside a replaced range keep their line when it still exists.
+ * `insertBefore` decides whether text inserted exactly at the position pushes it along.
+ */
+export function shiftPosition(
+    position: vscode.Position,
+    change: vscode.TextDocumentContentChangeEvent,
+    insertBefore: boolean
+): vscode.Position {
+    const { start, end } = change.range;
+    const insertedLines = change.text.split('\n');
+    const addedLines = insertedLines.length - 1;
+
+    if (position.isBefore(start) || (!insertBefore && position.isEqual(start))) {
+        return position;
+    }
+
+    // The position was part of the replaced range
+    if (position.isBefore(end)) {
+        return new vscode.Position(Math.min(position.line, start.line + addedLines), position.character);
+    }
+
+    if (position.line === end.line) {
+        const lastLineLength = insertedLines[addedLines].length;
+        const character = (addedLines === 0 ? start.character + lastLineLength : lastLineLength)
+            + position.character - end.character;
+        return new vscode.Position(start.line + addedLines, character);
+    }
+
+    return new vscode.Position(position.line + addedLines - (end.line - start.line), position.character);
+}
+
+/**
+ * Compute where a note range ends up after a single text change.
+ * Empty ranges move as a point; otherwise text typed right after the range does not extend it.
+ */
+export function shiftRange(range: vscode.Range, change: vscode.TextDocumentContentChangeEvent): vscode.Range {
+    const start = shiftPosition(range.start, change, true);
+    const end = shiftPosition(range.end, change, range.isEmpty);
+    return new vscode.Range(start, end.isBefore(start) ? start : end);
+}
+
+/**
+ * Keeps note ranges in sync with edits made in open editors.
+ * Shifts are applied in memory while typing and persisted when the document is saved,
+ * together with a fresh anchor snapshot of each noted line.
+ * Notes are relocated to their anchors when a file is opened or its notes are reloaded from disk.
+ */
+export class LineTracker implements vscode.Disposable {
+    private workspaceManager: WorkspaceManager;
+    private provider: ReviewNotesProvider;
+    private pendingFiles: Set<string> = new Set();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(workspaceManager: WorkspaceManager, provider: ReviewNotesProvider) {
+        this.workspaceManager = workspaceManager;
+        this.provider = provider;
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentChange(event)),
+            vscode.workspace.onDidSaveTextDocument(document => this.handleDocumentSave(document)),
+            vscode.workspace.onDidOpenTextDocument(document => this.relocateNotes(document)),
+            workspaceManager.onDidReload(storage => vscode.workspace.textDocuments
+                .filter(document => this.workspaceManager.getStorage(document.uri) === storage)
+                .forEach(document => this.relocateNotes(document)))
+        );
+
+        vscode.workspace.textDocuments.forEach(document => this.relocateNotes(document));
+    }
+
+    /**
+     * Move notes to where their code is now (e.g. after a pull or formatter run).
+     * Unsaved documents are skipped: their anchors are only refreshed on save,
+     * so a line being rewritten would pull its note elsewhere.
+     */
+    private relocateNotes(document: vscode.TextDocument): void {
+        const storage = this.workspaceManager.getStorage(document.uri);
+        if (document.uri.scheme !== 'file' || document.isDirty || !storage
+            || storage.getNotesForFile(document.uri).length === 0) {
+            return;
+        }
+
+        storage.relocateNotes(document.uri, document.getText().split(/\r?\n/));
+        this.provider.syncThreadRanges(document.uri);
+    }
+
+    /**
+     * Shift notes after or inside each changed range
+     */
+    private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+        const uri = event.document.uri;
+        const storage = this.workspaceManager.getStorage(uri);
+        if (uri.scheme !== 'file' || event.contentChanges.length === 0 || !storage) {
+            return;
+        }
+
+        let moved = false;
+        for (const change of event.contentChanges) {
+            if (storage.shiftNoteRanges(uri, range => shiftRange(range, change))) {
+                moved = true;
+            }
+        }
+
+        if (moved) {
+            this.pendingFiles.add(uri.toString());
+            this.provider.syncThreadRanges(uri);
+        }
+    }
+
+    /**
+     * Persist shifted lines and refresh anchors once the edited document is saved
+     */
+    private handleDocumentSave(document: vscode.TextDocument): void {
+        const storage = this.workspaceManager.getStorage(document.uri);
+        if (document.uri.scheme !== 'file' || !storage) {
+            return;
+        }
+
+        if (this.pendingFiles.delete(document.uri.toString())) {
+            storage.save();
+        }
+
+        if (storage.getNotesForFile(document.uri).length > 0) {
+            storage.anchorNotes(document.uri, document.getText().split(/\r?\n/));
+        }
+    }
+
+    /**
+     * Dispose event listeners
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.pendingFiles.clear();
+    }
+}
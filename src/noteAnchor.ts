@@ -0,0 +1,138 @@
+import * as crypto from 'crypto';
+import { NoteAnchor } from './utils';
+
+/**
+ * Number of lines captured above and below the noted line
+ */
+const CONTEXT_LINES = 2;
+
+/**
+ * Minimum score for a fuzzy match to be trusted
+ */
+const MIN_CONFIDENCE = 0.6;
+
+/**
+ * Lines shorter than this (braces, blank lines) are matched mostly by their context
+ */
+const MIN_DISTINCTIVE_LENGTH = 4;
+
+/**
+ * Hash the trimmed content of a line
+ */
+export function hashLine(text: string): string {
+    return crypto.createHash('sha1').update(text.trim()).digest('hex').substring(0, 12);
+}
+
+/**
+ * Capture a snapshot of a line and its surroundings
+ */
+export function createAnchor(lines: string[], line: number): NoteAnchor {
+    const text = lines[line] ?? '';
+    return {
+        text: text.trim(),
+        hash: hashLine(text),
+        before: lines.slice(Math.max(0, line - CONTEXT_LINES), line).map(l => l.trim()),
+        after: lines.slice(line + 1, line + 1 + CONTEXT_LINES).map(l => l.trim()),
+    };
+}
+
+/**
+ * Find the best line for an anchor in the current content.
+ * Prefers exact hash matches, then fuzzy matches, and breaks ties by distance
+ * from the last known line. Returns undefined when no candidate is confident enough.
+ */
+export function relocateAnchor(lines: string[], anchor: NoteAnchor, lastLine: number): number | undefined {
+    // Fast path: nothing moved
+    if (lastLine < lines.length && hashLine(lines[lastLine]) === anchor.hash
+        && contextScore(lines, lastLine, anchor) >= MIN_CONFIDENCE) {
+        return lastLine;
+    }
+
+    const hashes = lines.map(hashLine);
+    const exactMatches: number[] = [];
+    for (let i = 0; i < hashes.length; i++) {
+        if (hashes[i] === anchor.hash) {
+            exactMatches.push(i);
+        }
+    }
+
+    // Blank or very common lines are only trusted with matching context
+    const distinctive = anchor.text.length >= MIN_DISTINCTIVE_LENGTH;
+    const candidates = exactMatches.length > 0 && distinctive
+        ? exactMatches
+        : lines.map((_, i) => i);
+
+    let bestLine: number | undefined;
+    let bestScore = 0;
+
+    for (const i of candidates) {
+        const lineScore = hashes[i] === anchor.hash ? 1 : similarity(anchor.text, lines[i].trim());
+        const score = distinctive
+            ? lineScore * 0.6 + contextScore(lines, i, anchor) * 0.4
+            : lineScore * 0.3 + contextScore(lines, i, anchor) * 0.7;
+
+        const isBetter = score > bestScore
+            || (score === bestScore && bestLine !== undefined && Math.abs(i - lastLine) < Math.abs(bestLine - lastLine));
+
+        if (isBetter) {
+            bestScore = score;
+            bestLine = i;
+        }
+    }
+
+    return bestScore >= MIN_CONFIDENCE ? bestLine : undefined;
+}
+
+/**
+ * Average similarity of the lines around a candidate to the anchor context
+ */
+function contextScore(lines: string[], line: number, anchor: NoteAnchor): number {
+    const scores: number[] = [];
+
+    anchor.before.forEach((text, index) => {
+        const candidate = lines[line - anchor.before.length + index];
+        scores.push(candidate === undefined ? 0 : similarity(text, candidate.trim()));
+    });
+
+    anchor.after.forEach((text, index) => {
+        const candidate = lines[line + 1 + index];
+        scores.push(candidate === undefined ? 0 : similarity(text, candidate.trim()));
+    });
+
+    // No context captured (single-line file): context gives no evidence either way
+    if (scores.length === 0) {
+        return 1;
+    }
+
+    return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/**
+ * Dice coefficient over character bigrams (0 = unrelated, 1 = identical)
+ */
+function similarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+        return 0;
+    }
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.substring(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.substring(i, i + 2);
+        const count = bigrams.get(bigram) ?? 0;
+        if (count > 0) {
+            bigrams.set(bigram, count - 1);
+            overlap++;
+        }
+    }
+
+    return (2 * overlap) / (a.length + b.length - 2);
+}
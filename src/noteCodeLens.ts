@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import { Note, getPriorities, getPriorityConfig } from './utils';
+import { WorkspaceManager } from './workspaceManager';
+import { ReviewNotesProvider } from './reviewNotesProvider';
+
+/**
+ * Symbols that get a notes summary lens
+ */
+const SUMMARIZED_KINDS = new Set([
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+]);
+
+/**
+ * A symbol range, from either a DocumentSymbol tree or flat SymbolInformation
+ */
+interface SymbolRange {
+    range: vscode.Range;
+    selectionRange: vscode.Range;
+}
+
+/**
+ * Flatten document symbols into the ranges that get a lens
+ */
+function collectSymbols(symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): SymbolRange[] {
+    const result: SymbolRange[] = [];
+
+    for (const symbol of symbols) {
+        if ('children' in symbol) {
+            if (SUMMARIZED_KINDS.has(symbol.kind)) {
+                result.push({ range: symbol.range, selectionRange: symbol.selectionRange });
+            }
+            result.push(...collectSymbols(symbol.children));
+        } else if (SUMMARIZED_KINDS.has(symbol.kind)) {
+            result.push({ range: symbol.location.range, selectionRange: symbol.location.range });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Lens title such as "2 notes · 🔴 1 high · 🟢 1 low"
+ */
+function formatSummary(notes: Note[]): string {
+    const parts = [`${notes.length} note${notes.length === 1 ? '' : 's'}`];
+
+    // Configured priorities first, then any unknown ones
+    const priorityIds = getPriorities().map(p => p.id);
+    notes.forEach(note => {
+        if (!priorityIds.includes(note.priority)) {
+            priorityIds.push(note.priority);
+        }
+    });
+
+    for (const priority of priorityIds) {
+        const count = notes.filter(note => note.priority === priority).length;
+        if (count > 0) {
+            const config = getPriorityConfig(priority);
+            parts.push(`${config.icon} ${count} ${config.label.toLowerCase()}`);
+        }
+    }
+
+    return parts.join(' · ');
+}
+
+/**
+ * Shows a summary of the open notes above each function or class that contains them.
+ * Each note is counted once, for the innermost symbol around its first line.
+ */
+export class NoteCodeLensProvider implements vscode.CodeLensProvider {
+    private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    private workspaceManager: WorkspaceManager;
+
+    constructor(workspaceManager: WorkspaceManager) {
+        this.workspaceManager = workspaceManager;
+    }
+
+    /**
+     * Ask VS Code to request the lenses again
+     */
+    public refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        if (!vscode.workspace.getConfiguration('reviewNotes').get<boolean>('codeLens.enabled', true)) {
+            return [];
+        }
+
+        const notes = (this.workspaceManager.getStorage(document.uri)?.getNotesForFile(document.uri) ?? [])
+            .filter(note => note.status === 'open' && !note.orphaned);
+        if (notes.length === 0) {
+            return [];
+        }
+
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+            'vscode.executeDocumentSymbolProvider',
+            document.uri
+        );
+        if (!symbols) {
+            return [];
+        }
+
+        // Assign each note to the smallest symbol containing its first line
+        const symbolNotes = new Map<SymbolRange, Note[]>();
+        const symbolRanges = collectSymbols(symbols);
+        for (const note of notes) {
+            let innermost: SymbolRange | undefined;
+            for (const symbol of symbolRanges) {
+                const contains = symbol.range.start.line <= note.line && note.line <= symbol.range.end.line;
+                if (contains && (!innermost || innermost.range.contains(symbol.range))) {
+                    innermost = symbol;
+                }
+            }
+            if (innermost) {
+                symbolNotes.set(innermost, [...(symbolNotes.get(innermost) || []), note]);
+            }
+        }
+
+        return Array.from(symbolNotes.entries()).map(([symbol, symbolNoteList]) => new vscode.CodeLens(
+            new vscode.Range(symbol.selectionRange.start, symbol.selectionRange.start),
+            {
+                title: formatSummary(symbolNoteList),
+                tooltip: 'Expand the review notes in this symbol',
+                command: 'reviewNotes.expandNotes',
+                arguments: [document.uri, symbolNoteList.map(note => note.id)],
+            }
+        ));
+    }
+}
+
+/**
+ * Register the CodeLens provider and its commands
+ */
+export function registerCodeLens(
+    context: vscode.ExtensionContext,
+    workspaceManager: WorkspaceManager,
+    provider: ReviewNotesProvider
+): NoteCodeLensProvider {
+    const codeLensProvider = new NoteCodeLensProvider(workspaceManager);
+
+    const expandNotesCommand = vscode.commands.registerCommand(
+        'reviewNotes.expandNotes',
+        (uri: vscode.Uri, noteIds: string[]) => {
+            noteIds.forEach(noteId => provider.expandThreadForNote(uri, noteId));
+        }
+    );
+
+    const toggleCommand = vscode.commands.registerCommand('reviewNotes.toggleCodeLens', async () => {
+        const config = vscode.workspace.getConfiguration('reviewNotes');
+        const enabled = config.get<boolean>('codeLens.enabled', true);
+        await config.update('codeLens.enabled', !enabled, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(`Review Notes: CodeLens summaries ${enabled ? 'hidden' : 'shown'}`);
+    });
+
+    context.subscriptions.push(
+        vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider),
+        expandNotesCommand,
+        toggleCommand,
+        workspaceManager.onDidChange(() => codeLensProvider.refresh()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('reviewNotes.codeLens')) {
+                codeLensProvider.refresh();
+            }
+        })
+    );
+
+    return codeLensProvider;
+}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { Note, DEFAULT_PRIORITIES, getPriorityConfig, getCategoryConfig } from './utils';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * Theme colors contributed for the built-in priorities
+ */
+const PRIORITY_THEME_COLORS: Record<string, string> = {
+    high: 'reviewNotes.priorityHigh',
+    medium: 'reviewNotes.priorityMedium',
+    low: 'reviewNotes.priorityLow',
+};
+
+/**
+ * Opacity of the optional line background tint
+ */
+const LINE_TINT_ALPHA = '1f';
+
+/**
+ * Gutter icon showing a category emoji
+ */
+function createGutterIcon(icon: string): vscode.Uri {
+    const text = icon.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16">'
+        + `<text x="8" y="13" font-size="12" text-anchor="middle">${text}</text></svg>`;
+    return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
+
+/**
+ * Add an alpha channel to a #rgb or #rrggbb color; other color formats are not tinted
+ */
+function withAlpha(color: string, alpha: string): string | undefined {
+    if (/^#[0-9a-f]{3}$/i.test(color)) {
+        return `#${color.substring(1).split('').map(c => c + c).join('')}${alpha}`;
+    }
+    return /^#[0-9a-f]{6}$/i.test(color) ? `${color}${alpha}` : undefined;
+}
+
+/**
+ * Color of a priority: the contributed theme color for unchanged built-ins, the configured color otherwise
+ */
+function getPriorityColor(priority: string): string | vscode.ThemeColor {
+    const config = getPriorityConfig(priority);
+    const builtIn = DEFAULT_PRIORITIES.some(p => p.id === priority && p.color === config.color);
+    return builtIn ? new vscode.ThemeColor(PRIORITY_THEME_COLORS[priority]) : config.color;
+}
+
+/**
+ * Lines covered by a note; a range ending at the start of a line does not include that line
+ */
+function getNoteLines(note: Note): vscode.Range {
+    const endLine = note.endLine > note.line && note.endCharacter === 0 ? note.endLine - 1 : note.endLine;
+    return new vscode.Range(note.line, 0, endLine, 0);
+}
+
+/**
+ * Marks noted lines in the editor so notes stay visible while their threads are collapsed:
+ * a category icon in the gutter, a priority mark in the overview ruler and optionally a
+ * priority tint on the lines. Closed and orphaned notes are not decorated.
+ */
+export class NoteDecorator implements vscode.Disposable {
+    private workspaceManager: WorkspaceManager;
+    private categoryTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private priorityTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(workspaceManager: WorkspaceManager) {
+        this.workspaceManager = workspaceManager;
+
+        this.disposables.push(
+            workspaceManager.onDidChange(() => this.updateVisibleEditors()),
+            workspaceManager.onDidChangeFolders(() => this.updateVisibleEditors()),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateVisibleEditors()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('reviewNotes.decorations')) {
+                    this.reset();
+                }
+            })
+        );
+
+        this.updateVisibleEditors();
+    }
+
+    /**
+     * Recreate decoration types, e.g. after categories or priorities were redefined
+     */
+    public reset(): void {
+        this.disposeTypes();
+        this.updateVisibleEditors();
+    }
+
+    /**
+     * Decorate every visible editor
+     */
+    public updateVisibleEditors(): void {
+        vscode.window.visibleTextEditors.forEach(editor => this.updateEditor(editor));
+    }
+
+    /**
+     * Decorate the noted lines of one editor
+     */
+    private updateEditor(editor: vscode.TextEditor): void {
+        const config = vscode.workspace.getConfiguration('reviewNotes.decorations');
+        const showGutter = config.get<boolean>('gutterIcons', true);
+        const showRuler = config.get<boolean>('overviewRuler', true);
+        const showTint = config.get<boolean>('lineHighlight', false);
+
+        const notes = (this.workspaceManager.getStorage(editor.document.uri)?.getNotesForFile(editor.document.uri) ?? [])
+            .filter(note => note.status === 'open' && !note.orphaned);
+
+        const gutterRanges = new Map<string, vscode.Range[]>();
+        const priorityRanges = new Map<string, vscode.Range[]>();
+
+        for (const note of notes) {
+            const lines = getNoteLines(note);
+            if (showGutter) {
+                const ranges = gutterRanges.get(note.category) || [];
+                ranges.push(new vscode.Range(lines.start, lines.start));
+                gutterRanges.set(note.category, ranges);
+            }
+            if (showRuler || showTint) {
+                const ranges = priorityRanges.get(note.priority) || [];
+                ranges.push(lines);
+                priorityRanges.set(note.priority, ranges);
+            }
+        }
+
+        // Clear types no longer used in this editor, then apply the current ranges
+        for (const [category, type] of this.categoryTypes) {
+            if (!gutterRanges.has(category)) {
+                editor.setDecorations(type, []);
+            }
+        }
+        for (const [priority, type] of this.priorityTypes) {
+            if (!priorityRanges.has(priority)) {
+                editor.setDecorations(type, []);
+            }
+        }
+
+        for (const [category, ranges] of gutterRanges) {
+            editor.setDecorations(this.getCategoryType(category), ranges);
+        }
+        for (const [priority, ranges] of priorityRanges) {
+            editor.setDecorations(this.getPriorityType(priority, showRuler, showTint), ranges);
+        }
+    }
+
+    /**
+     * Get (or create) the gutter decoration for a category
+     */
+    private getCategoryType(category: string): vscode.TextEditorDecorationType {
+        let type = this.categoryTypes.get(category);
+        if (!type) {
+            type = vscode.window.createTextEditorDecorationType({
+                gutterIconPath: createGutterIcon(getCategoryConfig(category).icon),
+                gutterIconSize: 'contain',
+            });
+            this.categoryTypes.set(category, type);
+        }
+        return type;
+    }
+
+    /**
+     * Get (or create) the overview ruler and line tint decoration for a priority
+     */
+    private getPriorityType(priority: string, showRuler: boolean, showTint: boolean): vscode.TextEditorDecorationType {
+        let type = this.priorityTypes.get(priority);
+        if (!type) {
+            const color = getPriorityColor(priority);
+            type = vscode.window.createTextEditorDecorationType({
+                isWholeLine: true,
+                overviewRulerColor: showRuler ? color : undefined,
+                overviewRulerLane: vscode.OverviewRulerLane.Right,
+                backgroundColor: showTint ? withAlpha(getPriorityConfig(priority).color, LINE_TINT_ALPHA) : undefined,
+            });
+            this.priorityTypes.set(priority, type);
+        }
+        return type;
+    }
+
+    /**
+     * Dispose all decoration types (removes them from every editor)
+     */
+    private disposeTypes(): void {
+        this.categoryTypes.forEach(type => type.dispose());
+        this.categoryTypes.clear();
+        this.priorityTypes.forEach(type => type.dispose());
+        this.priorityTypes.clear();
+    }
+
+    /**
+     * Dispose decorations and event listeners
+     */
+    public dispose(): void {
+        this.disposeTypes();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
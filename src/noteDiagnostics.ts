@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { Note, NoteStatus, getCategoryConfig, getAbsolutePath, debounce } from './utils';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * Severity names accepted in the reviewNotes.diagnostics.severity setting
+ */
+const SEVERITIES: Record<string, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+};
+
+/**
+ * Build the Problems panel entry for a note
+ */
+function createDiagnostic(note: Note, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+    // Notes on a cursor line are shown across the whole line
+    const range = note.line === note.endLine && note.startCharacter === note.endCharacter
+        ? new vscode.Range(note.line, 0, note.line, Number.MAX_SAFE_INTEGER)
+        : new vscode.Range(note.line, note.startCharacter, note.endLine, note.endCharacter);
+
+    const categoryConfig = getCategoryConfig(note.category);
+    const summary = note.text.split(/\r?\n/)[0];
+    const orphaned = note.orphaned ? ' (orphaned: code not found)' : '';
+
+    const diagnostic = new vscode.Diagnostic(range, `${categoryConfig.label}: ${summary}${orphaned}`, severity);
+    diagnostic.source = 'Review Notes';
+    diagnostic.code = categoryConfig.label;
+    return diagnostic;
+}
+
+/**
+ * Publishes notes to the Problems panel, so they can be triaged with its filtering
+ * and navigation. Which categories and statuses are published, and the severity of
+ * each priority, come from the reviewNotes.diagnostics settings.
+ */
+export class NoteDiagnostics implements vscode.Disposable {
+    private workspaceManager: WorkspaceManager;
+    private collection: vscode.DiagnosticCollection;
+    private updateDebounced: () => void;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(workspaceManager: WorkspaceManager) {
+        this.workspaceManager = workspaceManager;
+        this.collection = vscode.languages.createDiagnosticCollection('reviewNotes');
+
+        // Notes move on every keystroke while lines are tracked, so batch updates
+        this.updateDebounced = debounce(() => this.update(), 200);
+
+        this.disposables.push(
+            workspaceManager.onDidChange(() => this.updateDebounced()),
+            workspaceManager.onDidChangeFolders(() => this.update()),
+            vscode.workspace.onDidDeleteFiles(() => this.update()),
+            vscode.workspace.onDidCreateFiles(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('reviewNotes.diagnostics')) {
+                    this.update();
+                }
+            })
+        );
+
+        this.update();
+    }
+
+    /**
+     * Rebuild all diagnostics from the notes of every workspace folder
+     */
+    public update(): void {
+        const config = vscode.workspace.getConfiguration('reviewNotes.diagnostics');
+        const categories = config.get<string[]>('categories', ['bug', 'todo']);
+        const statuses = config.get<NoteStatus[]>('statuses', ['open']);
+        const severities = config.get<Record<string, string>>('severity', { high: 'error', medium: 'warning', low: 'information' });
+
+        this.collection.clear();
+
+        for (const storage of this.workspaceManager.getStorages()) {
+            // Notes of deleted files are listed under Missing Files in the Notes Explorer instead
+            const missingFiles = storage.getMissingFiles();
+
+            for (const [filePath, notes] of storage.getAllNotes().entries()) {
+                if (missingFiles.includes(filePath)) {
+                    continue;
+                }
+
+                const diagnostics = notes
+                    .filter(note => categories.includes(note.category) && statuses.includes(note.status))
+                    .map(note => createDiagnostic(
+                        note,
+                        SEVERITIES[severities[note.priority]] ?? vscode.DiagnosticSeverity.Information
+                    ));
+
+                if (diagnostics.length > 0) {
+                    const uri = vscode.Uri.file(getAbsolutePath(filePath, storage.getWorkspaceRoot()));
+                    this.collection.set(uri, diagnostics);
+                }
+            }
+        }
+    }
+
+    /**
+     * Dispose the diagnostic collection and event listeners
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.collection.dispose();
+    }
+}
@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import { NoteStatus, STATUS_CONFIG, getPriorities, getCategories } from './utils';
+import { NoteFilter, isFilterActive, describeFilter } from './noteQuery';
+import { WorkspaceManager } from './workspaceManager';
+
+const FILTER_STATE_KEY = 'reviewNotes.filter';
+
+/**
+ * Event emitter for filter changes
+ */
+export type FilterChangeListener = (filter: NoteFilter) => void;
+
+/**
+ * Holds the current filter and persists it in workspace state
+ */
+export class NoteFilterState {
+    private memento: vscode.Memento;
+    private filter: NoteFilter;
+    private changeListeners: FilterChangeListener[] = [];
+
+    constructor(memento: vscode.Memento) {
+        this.memento = memento;
+        this.filter = memento.get<NoteFilter>(FILTER_STATE_KEY, {});
+    }
+
+    /**
+     * Get the current filter
+     */
+    public get(): NoteFilter {
+        return this.filter;
+    }
+
+    /**
+     * Replace the current filter
+     */
+    public async set(filter: NoteFilter): Promise<void> {
+        this.filter = filter;
+        await this.memento.update(FILTER_STATE_KEY, filter);
+        this.changeListeners.forEach(listener => listener(filter));
+    }
+
+    /**
+     * Remove all filter criteria
+     */
+    public clear(): Promise<void> {
+        return this.set({});
+    }
+
+    /**
+     * Register a listener for filter changes
+     */
+    public onDidChange(listener: FilterChangeListener): vscode.Disposable {
+        this.changeListeners.push(listener);
+        return new vscode.Disposable(() => {
+            const index = this.changeListeners.indexOf(listener);
+            if (index > -1) {
+                this.changeListeners.splice(index, 1);
+            }
+        });
+    }
+}
+
+/**
+ * Quick pick item for one filter criterion
+ */
+interface FilterOption extends vscode.QuickPickItem {
+    field?: 'categories' | 'priorities' | 'authors' | 'statuses';
+    value?: string;
+}
+
+/**
+ * Show a multi-select quick pick of categories, priorities, authors and statuses
+ */
+async function pickFilterCriteria(filterState: NoteFilterState, workspaceManager: WorkspaceManager): Promise<void> {
+    const filter = filterState.get();
+
+    const authors = new Set<string>();
+    for (const storage of workspaceManager.getStorages()) {
+        for (const notes of storage.getAllNotes().values()) {
+            notes.forEach(note => authors.add(note.author));
+        }
+    }
+
+    const section = (label: string): FilterOption => ({ label, kind: vscode.QuickPickItemKind.Separator });
+    const option = (field: NonNullable<FilterOption['field']>, value: string, label: string): FilterOption => ({
+        label,
+        field,
+        value,
+        picked: (filter[field] as string[] | undefined)?.includes(value) ?? false,
+    });
+
+    const options: FilterOption[] = [
+        section('Category'),
+        ...getCategories().map(c => option('categories', c.id, `${c.icon} ${c.label}`)),
+        section('Priority'),
+        ...getPriorities().map(p => option('priorities', p.id, `${p.icon} ${p.label}`)),
+        section('Status'),
+        ...(Object.keys(STATUS_CONFIG) as NoteStatus[]).map(s =>
+            option('statuses', s, `${STATUS_CONFIG[s].icon} ${STATUS_CONFIG[s].label}`)),
+        section('Author'),
+        ...Array.from(authors).sort().map(a => option('authors', a, `$(person) ${a}`)),
+    ];
+
+    const picked = await vscode.window.showQuickPick(options, {
+        canPickMany: true,
+        title: 'Filter Notes',
+        placeHolder: 'Select the categories, priorities, statuses and authors to show',
+    });
+
+    if (!picked) return;
+
+    const valuesFor = (field: NonNullable<FilterOption['field']>) =>
+        picked.filter(o => o.field === field).map(o => o.value as string);
+
+    await filterState.set({
+        text: filter.text,
+        categories: valuesFor('categories'),
+        priorities: valuesFor('priorities'),
+        statuses: valuesFor('statuses') as NoteStatus[],
+        authors: valuesFor('authors'),
+    });
+}
+
+/**
+ * Register filter commands and keep the view description in sync with the filter
+ */
+export function registerFilterCommands(
+    context: vscode.ExtensionContext,
+    filterState: NoteFilterState,
+    workspaceManager: WorkspaceManager,
+    treeView: vscode.TreeView<unknown>
+): void {
+    const updateView = (filter: NoteFilter) => {
+        const active = isFilterActive(filter);
+        treeView.description = active ? `Filtered: ${describeFilter(filter)}` : undefined;
+        vscode.commands.executeCommand('setContext', 'reviewNotes.filterActive', active);
+    };
+
+    const searchCommand = vscode.commands.registerCommand('reviewNotes.searchNotes', async () => {
+        const filter = filterState.get();
+        const text = await vscode.window.showInputBox({
+            title: 'Search Notes',
+            prompt: 'Show notes whose text or replies contain this text (leave empty to clear)',
+            value: filter.text ?? '',
+        });
+
+        if (text === undefined) return;
+
+        await filterState.set({ ...filter, text: text.trim() || undefined });
+    });
+
+    const filterCommand = vscode.commands.registerCommand(
+        'reviewNotes.filterNotes',
+        () => pickFilterCriteria(filterState, workspaceManager)
+    );
+
+    const clearCommand = vscode.commands.registerCommand(
+        'reviewNotes.clearFilter',
+        () => filterState.clear()
+    );
+
+    updateView(filterState.get());
+
+    context.subscriptions.push(
+        searchCommand,
+        filterCommand,
+        clearCommand,
+        filterState.onDidChange(updateView)
+    );
+}
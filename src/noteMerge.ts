@@ -0,0 +1,219 @@
+import { Note, NoteReply, generateId } from './utils';
+
+/**
+ * A note together with the file it belongs to, so moves between files merge like any other field
+ */
+type FiledNote = Note & { filePath: string };
+
+/**
+ * How to settle notes changed differently on both sides
+ */
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+/**
+ * A note changed differently in memory and on disk since the last load.
+ * A missing side means the note was deleted there.
+ */
+export interface NoteConflict {
+    id: string;
+    mine?: FiledNote;
+    theirs?: FiledNote;
+}
+
+/**
+ * Fields that follow the code in the local editor; local values win without a conflict
+ */
+const LOCATION_FIELDS = ['filePath', 'line', 'startCharacter', 'endLine', 'endCharacter', 'anchor', 'orphaned'];
+
+/**
+ * Compare values as stored, regardless of key order
+ */
+function same(a: unknown, b: unknown): boolean {
+    const sortedKeys = (_key: string, value: unknown) => value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([x], [y]) => x.localeCompare(y)))
+        : value;
+    return JSON.stringify(a, sortedKeys) === JSON.stringify(b, sortedKeys);
+}
+
+/**
+ * Three-way merge of lists keyed by id. Additions and deletions on either side are kept;
+ * items present on both sides are merged with mergeItem.
+ */
+function mergeById<T extends { id: string }>(
+    base: T[],
+    mine: T[],
+    theirs: T[],
+    mergeItem: (base: T | undefined, mine: T, theirs: T) => { item: T; conflict: boolean }
+): { items: T[]; conflicts: { id: string; mine?: T; theirs?: T }[] } {
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const mineById = new Map(mine.map(item => [item.id, item]));
+    const theirsById = new Map(theirs.map(item => [item.id, item]));
+    const ids = [...theirs.map(item => item.id), ...mine.map(item => item.id).filter(id => !theirsById.has(id))];
+
+    const items: T[] = [];
+    const conflicts: { id: string; mine?: T; theirs?: T }[] = [];
+
+    for (const id of ids) {
+        const baseItem = baseById.get(id);
+        const mineItem = mineById.get(id);
+        const theirsItem = theirsById.get(id);
+
+        if (mineItem && theirsItem) {
+            const { item, conflict } = mergeItem(baseItem, mineItem, theirsItem);
+            items.push(item);
+            if (conflict) {
+                conflicts.push({ id, mine: mineItem, theirs: theirsItem });
+            }
+        } else if (mineItem) {
+            // Added here, or deleted on disk
+            if (!baseItem) {
+                items.push(mineItem);
+            } else if (!same(baseItem, mineItem)) {
+                // Changed here but deleted on disk: keep it until the user decides
+                items.push(mineItem);
+                conflicts.push({ id, mine: mineItem });
+            }
+        } else if (theirsItem) {
+            // Added on disk, or deleted here
+            if (!baseItem) {
+                items.push(theirsItem);
+            } else if (!same(baseItem, theirsItem)) {
+                // Deleted here but changed on disk: left out until the user decides
+                conflicts.push({ id, theirs: theirsItem });
+            }
+        }
+    }
+
+    return { items, conflicts };
+}
+
+/**
+ * Field-by-field three-way merge of one record. Fields changed differently on both sides
+ * are conflicts, except location fields (local wins) and timestamps (latest wins).
+ */
+function mergeFields<T extends object>(
+    base: T | undefined,
+    mine: T,
+    theirs: T,
+    mergeField?: (key: string, base: unknown, mine: unknown, theirs: unknown) => { value: unknown; conflict: boolean } | undefined
+): { item: T; conflict: boolean } {
+    if (same(mine, theirs)) {
+        return { item: mine, conflict: false };
+    }
+
+    const result: Record<string, unknown> = {};
+    let conflict = false;
+    const keys = new Set([...Object.keys(mine), ...Object.keys(theirs)]);
+    const get = (record: T | undefined, key: string) => (record as Record<string, unknown> | undefined)?.[key];
+
+    for (const key of keys) {
+        const baseValue = get(base, key);
+        const mineValue = get(mine, key);
+        const theirsValue = get(theirs, key);
+
+        const custom = mergeField?.(key, baseValue, mineValue, theirsValue);
+        if (custom) {
+            result[key] = custom.value;
+            conflict = conflict || custom.conflict;
+        } else if (same(mineValue, theirsValue) || same(baseValue, theirsValue)) {
+            result[key] = mineValue;
+        } else if (same(baseValue, mineValue)) {
+            result[key] = theirsValue;
+        } else if (key === 'timestamp') {
+            result[key] = Math.max(Number(mineValue), Number(theirsValue));
+        } else {
+            result[key] = mineValue;
+            conflict = conflict || !LOCATION_FIELDS.includes(key);
+        }
+    }
+
+    // Fields removed on one side stay removed
+    for (const key of Object.keys(result)) {
+        if (result[key] === undefined) {
+            delete result[key];
+        }
+    }
+
+    return { item: result as T, conflict };
+}
+
+/**
+ * Merge one note, merging its replies by id
+ */
+function mergeNote(base: FiledNote | undefined, mine: FiledNote, theirs: FiledNote): { item: FiledNote; conflict: boolean } {
+    return mergeFields(base, mine, theirs, (key, baseValue, mineValue, theirsValue) => {
+        if (key !== 'replies') {
+            return undefined;
+        }
+        const replies = mergeById(
+            (baseValue as NoteReply[] | undefined) ?? [],
+            (mineValue as NoteReply[] | undefined) ?? [],
+            (theirsValue as NoteReply[] | undefined) ?? [],
+            (baseReply, mineReply, theirsReply) => mergeFields(baseReply, mineReply, theirsReply)
+        );
+        return { value: replies.items, conflict: replies.conflicts.length > 0 };
+    });
+}
+
+function flatten(notes: Map<string, Note[]>): FiledNote[] {
+    const result: FiledNote[] = [];
+    for (const [filePath, fileNotes] of notes.entries()) {
+        fileNotes.forEach(note => result.push({ ...note, filePath }));
+    }
+    return result;
+}
+
+function group(notes: FiledNote[]): Map<string, Note[]> {
+    const result = new Map<string, Note[]>();
+    for (const { filePath, ...note } of notes) {
+        const fileNotes = result.get(filePath) || [];
+        fileNotes.push(note);
+        result.set(filePath, fileNotes);
+    }
+    return result;
+}
+
+/**
+ * Three-way merge of notes keyed by note id.
+ * `base` is the content last loaded from disk, `mine` the notes in memory and `theirs` the
+ * content now on disk. Conflicting notes keep their local version until resolved.
+ */
+export function mergeNotes(
+    base: Map<string, Note[]>,
+    mine: Map<string, Note[]>,
+    theirs: Map<string, Note[]>
+): { merged: Map<string, Note[]>; conflicts: NoteConflict[] } {
+    const { items, conflicts } = mergeById(flatten(base), flatten(mine), flatten(theirs), mergeNote);
+    return { merged: group(items), conflicts };
+}
+
+/**
+ * Apply the user's choice to the conflicting notes of a merge result.
+ * The merge result already holds the local version, with changes from disk to other fields.
+ */
+export function resolveConflicts(
+    merged: Map<string, Note[]>,
+    conflicts: NoteConflict[],
+    resolution: ConflictResolution
+): Map<string, Note[]> {
+    if (resolution === 'mine') {
+        return merged;
+    }
+
+    let notes = flatten(merged);
+
+    for (const { id, theirs } of conflicts) {
+        if (resolution === 'theirs') {
+            notes = notes.filter(note => note.id !== id);
+        } else if (theirs) {
+            // Keep both versions; the local copy gets a new id
+            notes = notes.map(note => note.id === id ? { ...note, id: generateId() } : note);
+        }
+
+        if (theirs) {
+            notes.push(theirs);
+        }
+    }
+
+    return group(notes);
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { Note, getRelativePath, normalizeFilePath } from './utils';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * A position in workspace order: folder, file path, line, character
+ */
+interface WorkspacePosition {
+    folderIndex: number;
+    filePath: string;
+    line: number;
+    character: number;
+}
+
+/**
+ * A note together with its location in the workspace
+ */
+interface NoteLocation extends WorkspacePosition {
+    note: Note;
+    workspaceRoot: string;
+}
+
+/**
+ * Note last jumped to, so notes starting at the same position are not skipped
+ */
+let lastNoteId: string | undefined;
+
+/**
+ * All notes in workspace order.
+ * Closed notes and skipped priorities are left out according to settings,
+ * notes of deleted files always, since there is nothing to open.
+ */
+function getNavigableNotes(workspaceManager: WorkspaceManager): NoteLocation[] {
+    const config = vscode.workspace.getConfiguration('reviewNotes.navigation');
+    const skipResolved = config.get<boolean>('skipResolved', true);
+    const skipPriorities = config.get<string[]>('skipPriorities', []);
+    const locations: NoteLocation[] = [];
+
+    workspaceManager.getStorages().forEach((storage, folderIndex) => {
+        const missingFiles = storage.getMissingFiles();
+
+        for (const [filePath, notes] of storage.getAllNotes().entries()) {
+            if (missingFiles.includes(filePath)) {
+                continue;
+            }
+            for (const note of notes) {
+                if ((skipResolved && note.status !== 'open') || skipPriorities.includes(note.priority)) {
+                    continue;
+                }
+                locations.push({
+                    note,
+                    workspaceRoot: storage.getWorkspaceRoot(),
+                    folderIndex,
+                    filePath,
+                    line: note.line,
+                    character: note.startCharacter,
+                });
+            }
+        }
+    });
+
+    return locations.sort(comparePositions);
+}
+
+/**
+ * Order two positions in workspace order
+ */
+function comparePositions(a: WorkspacePosition, b: WorkspacePosition): number {
+    return a.folderIndex - b.folderIndex
+        || a.filePath.localeCompare(b.filePath)
+        || a.line - b.line
+        || a.character - b.character;
+}
+
+/**
+ * Get the cursor position in workspace order, if the active file is in a workspace folder
+ */
+function getCursorPosition(workspaceManager: WorkspaceManager): WorkspacePosition | undefined {
+    const editor = vscode.window.activeTextEditor;
+    const storage = editor ? workspaceManager.getStorage(editor.document.uri) : undefined;
+    if (!editor || !storage) {
+        return undefined;
+    }
+
+    return {
+        folderIndex: workspaceManager.getStorages().indexOf(storage),
+        filePath: normalizeFilePath(getRelativePath(editor.document.uri.fsPath, storage.getWorkspaceRoot())),
+        line: editor.selection.active.line,
+        character: editor.selection.active.character,
+    };
+}
+
+/**
+ * Jump to the next or previous note relative to the cursor, wrapping around at the ends
+ */
+async function goToAdjacentNote(workspaceManager: WorkspaceManager, direction: 1 | -1): Promise<void> {
+    const locations = getNavigableNotes(workspaceManager);
+    if (locations.length === 0) {
+        vscode.window.showInformationMessage('Review Notes: No notes to navigate to');
+        return;
+    }
+
+    let targetIndex = direction === 1 ? 0 : locations.length - 1;
+    const cursor = getCursorPosition(workspaceManager);
+
+    if (cursor) {
+        // Still on the note we jumped to: step from it, so notes at the same position are not skipped
+        const lastIndex = locations.findIndex(l => l.note.id === lastNoteId && comparePositions(l, cursor) === 0);
+
+        if (lastIndex > -1) {
+            targetIndex = (lastIndex + direction + locations.length) % locations.length;
+        } else if (direction === 1) {
+            const index = locations.findIndex(l => comparePositions(l, cursor) > 0);
+            targetIndex = index > -1 ? index : 0;
+        } else {
+            const index = locations.map(l => comparePositions(l, cursor) < 0).lastIndexOf(true);
+            targetIndex = index > -1 ? index : locations.length - 1;
+        }
+    }
+
+    const target = locations[targetIndex];
+    lastNoteId = target.note.id;
+
+    // Reveal the note and expand its thread
+    await vscode.commands.executeCommand('reviewNotes.goToNote', target.note, target.filePath, target.workspaceRoot);
+    vscode.window.setStatusBarMessage(`Review Notes: Note ${targetIndex + 1} of ${locations.length}`, 3000);
+}
+
+/**
+ * Register next/previous note commands
+ */
+export function registerNavigationCommands(context: vscode.ExtensionContext, workspaceManager: WorkspaceManager): void {
+    const nextNoteCommand = vscode.commands.registerCommand(
+        'reviewNotes.nextNote',
+        () => goToAdjacentNote(workspaceManager, 1)
+    );
+
+    const previousNoteCommand = vscode.commands.registerCommand(
+        'reviewNotes.previousNote',
+        () => goToAdjacentNote(workspaceManager, -1)
+    );
+
+    context.subscriptions.push(nextNoteCommand, previousNoteCommand);
+}
@@ -0,0 +1,84 @@
+import {
+    Note,
+    Priority,
+    Category,
+    NoteStatus,
+    STATUS_CONFIG,
+    getPriorityConfig,
+    getCategoryConfig
+} from './utils';
+
+/**
+ * Filter applied to the notes explorer (and optionally exports).
+ * Empty or missing fields match everything.
+ */
+export interface NoteFilter {
+    text?: string;
+    categories?: Category[];
+    priorities?: Priority[];
+    authors?: string[];
+    statuses?: NoteStatus[];
+}
+
+/**
+ * Check whether a filter restricts anything
+ */
+export function isFilterActive(filter: NoteFilter): boolean {
+    return !!filter.text
+        || !!filter.categories?.length
+        || !!filter.priorities?.length
+        || !!filter.authors?.length
+        || !!filter.statuses?.length;
+}
+
+/**
+ * Check whether a note passes a filter
+ */
+export function matchesFilter(note: Note, filter: NoteFilter): boolean {
+    if (filter.categories?.length && !filter.categories.includes(note.category)) {
+        return false;
+    }
+    if (filter.priorities?.length && !filter.priorities.includes(note.priority)) {
+        return false;
+    }
+    if (filter.authors?.length && !filter.authors.includes(note.author)) {
+        return false;
+    }
+    if (filter.statuses?.length && !filter.statuses.includes(note.status)) {
+        return false;
+    }
+
+    if (filter.text) {
+        // Search note text and replies, case-insensitive
+        const query = filter.text.toLowerCase();
+        const texts = [note.text, ...note.replies.map(reply => reply.text)];
+        return texts.some(text => text.toLowerCase().includes(query));
+    }
+
+    return true;
+}
+
+/**
+ * Short summary of a filter for the view description
+ */
+export function describeFilter(filter: NoteFilter): string {
+    const parts: string[] = [];
+
+    if (filter.text) {
+        parts.push(`"${filter.text}"`);
+    }
+    if (filter.categories?.length) {
+        parts.push(filter.categories.map(c => getCategoryConfig(c).label).join(', '));
+    }
+    if (filter.priorities?.length) {
+        parts.push(filter.priorities.map(p => getPriorityConfig(p).label).join(', '));
+    }
+    if (filter.authors?.length) {
+        parts.push(filter.authors.join(', '));
+    }
+    if (filter.statuses?.length) {
+        parts.push(filter.statuses.map(s => STATUS_CONFIG[s].label).join(', '));
+    }
+
+    return parts.join(' · ');
+}
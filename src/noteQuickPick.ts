@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import { Note, STATUS_CONFIG, getPriorities, getCategories, getPriorityConfig, getCategoryConfig, getAbsolutePath } from './utils';
+import { WorkspaceManager, getWorkspaceFolderName } from './workspaceManager';
+
+/**
+ * Quick pick item for one note
+ */
+interface NoteItem extends vscode.QuickPickItem {
+    note: Note;
+    filePath: string;
+    workspaceRoot: string;
+}
+
+/**
+ * Build an item for every note in the workspace, sorted by file and line
+ */
+function getNoteItems(workspaceManager: WorkspaceManager): NoteItem[] {
+    const storages = workspaceManager.getStorages();
+    const items: NoteItem[] = [];
+
+    for (const storage of storages) {
+        const workspaceRoot = storage.getWorkspaceRoot();
+        const folderPrefix = storages.length > 1 ? `${getWorkspaceFolderName(workspaceRoot)}/` : '';
+
+        for (const [filePath, notes] of storage.getAllNotes().entries()) {
+            const displayPath = `${folderPrefix}${filePath.replace(/^\.\//, '')}`;
+
+            for (const note of [...notes].sort((a, b) => a.line - b.line)) {
+                const status = note.status === 'open' ? '' : ` · ${STATUS_CONFIG[note.status].label}`;
+                items.push({
+                    label: `${getCategoryConfig(note.category).icon} ${getPriorityConfig(note.priority).icon} ${note.text.split(/\r?\n/)[0]}`,
+                    description: `${displayPath}:${note.line + 1}`,
+                    detail: `${note.author}${status}`,
+                    note,
+                    filePath,
+                    workspaceRoot,
+                });
+            }
+        }
+    }
+
+    return items;
+}
+
+/**
+ * Let the user pick values for a filter button; returns undefined when cancelled
+ */
+async function pickFilterValues(
+    title: string,
+    options: { id: string; icon: string; label: string }[],
+    selected: string[]
+): Promise<string[] | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        options.map(o => ({ label: `${o.icon} ${o.label}`, id: o.id, picked: selected.includes(o.id) })),
+        { title, canPickMany: true, placeHolder: 'Select none to show all' }
+    );
+    return picked?.map(p => p.id);
+}
+
+/**
+ * Open a searchable list of every note, with category and priority filters
+ * and an optional preview of each note's location
+ */
+async function findNote(workspaceManager: WorkspaceManager): Promise<void> {
+    const allItems = getNoteItems(workspaceManager);
+    if (allItems.length === 0) {
+        vscode.window.showInformationMessage('Review Notes: No notes in this workspace');
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('reviewNotes');
+    const originalEditor = vscode.window.activeTextEditor;
+    let categories: string[] = [];
+    let priorities: string[] = [];
+    let preview = config.get<boolean>('findNote.preview', true);
+    let previewed = false;
+    let accepted = false;
+    let pickingFilter = false;
+
+    const quickPick = vscode.window.createQuickPick<NoteItem>();
+    quickPick.title = 'Find Note';
+    quickPick.placeholder = 'Search notes by text, file or author';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+
+    const categoryButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('tag'), tooltip: 'Filter by Category' };
+    const priorityButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('flame'), tooltip: 'Filter by Priority' };
+    const previewButton = (): vscode.QuickInputButton => ({
+        iconPath: new vscode.ThemeIcon(preview ? 'eye' : 'eye-closed'),
+        tooltip: preview ? 'Preview: On' : 'Preview: Off',
+    });
+
+    const update = () => {
+        quickPick.items = allItems.filter(item =>
+            (categories.length === 0 || categories.includes(item.note.category))
+            && (priorities.length === 0 || priorities.includes(item.note.priority)));
+
+        const filters = [
+            ...categories.map(c => getCategoryConfig(c).label),
+            ...priorities.map(p => getPriorityConfig(p).label),
+        ];
+        quickPick.title = filters.length > 0 ? `Find Note (${filters.join(', ')})` : 'Find Note';
+        quickPick.buttons = [categoryButton, priorityButton, previewButton()];
+    };
+
+    const showLocation = async (item: NoteItem) => {
+        const uri = vscode.Uri.file(getAbsolutePath(item.filePath, item.workspaceRoot));
+        const { note } = item;
+        try {
+            await vscode.window.showTextDocument(uri, {
+                preview: true,
+                preserveFocus: true,
+                selection: new vscode.Range(note.line, note.startCharacter, note.endLine, note.endCharacter),
+            });
+            previewed = true;
+        } catch (error) {
+            // The file may have been deleted; keep browsing
+        }
+    };
+
+    quickPick.onDidTriggerButton(async button => {
+        if (button === categoryButton || button === priorityButton) {
+            pickingFilter = true;
+            const values = button === categoryButton
+                ? await pickFilterValues('Filter by Category', getCategories(), categories)
+                : await pickFilterValues('Filter by Priority', getPriorities(), priorities);
+            pickingFilter = false;
+
+            if (values && button === categoryButton) {
+                categories = values;
+            } else if (values) {
+                priorities = values;
+            }
+            update();
+            quickPick.show();
+            return;
+        }
+
+        // Preview toggle, remembered across sessions
+        preview = !preview;
+        await config.update('findNote.preview', preview, vscode.ConfigurationTarget.Global);
+        update();
+    });
+
+    quickPick.onDidChangeActive(items => {
+        if (preview && items[0]) {
+            showLocation(items[0]);
+        }
+    });
+
+    quickPick.onDidAccept(async () => {
+        const item = quickPick.selectedItems[0];
+        if (!item) {
+            return;
+        }
+
+        accepted = true;
+        quickPick.hide();
+        await vscode.commands.executeCommand('reviewNotes.goToNote', item.note, item.filePath, item.workspaceRoot);
+    });
+
+    quickPick.onDidHide(async () => {
+        // A filter picker temporarily replaces this one
+        if (pickingFilter) {
+            return;
+        }
+
+        quickPick.dispose();
+
+        // Cancelled after previewing: go back to where the user was
+        if (!accepted && previewed && originalEditor) {
+            try {
+                await vscode.window.showTextDocument(originalEditor.document, {
+                    viewColumn: originalEditor.viewColumn,
+                    selection: originalEditor.selection,
+                });
+            } catch (error) {
+                // The original document may have been closed while previewing
+            }
+        }
+    });
+
+    update();
+    quickPick.show();
+}
+
+/**
+ * Register the Find Note command
+ */
+export function registerFindNoteCommand(context: vscode.ExtensionContext, workspaceManager: WorkspaceManager): void {
+    const findNoteCommand = vscode.commands.registerCommand(
+        'reviewNotes.findNote',
+        () => findNote(workspaceManager)
+    );
+
+    context.subscriptions.push(findNoteCommand);
+}
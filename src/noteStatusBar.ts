@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { Note, getPriorities, getPriorityConfig, getCategoryConfig, formatNoteRange, STATUS_CONFIG } from './utils';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * Per-priority counts such as "🔴 1 🟡 2"
+ */
+function formatPriorityCounts(notes: Note[]): string {
+    const priorityIds = getPriorities().map(p => p.id);
+    notes.forEach(note => {
+        if (!priorityIds.includes(note.priority)) {
+            priorityIds.push(note.priority);
+        }
+    });
+
+    return priorityIds
+        .map(priority => ({ priority, count: notes.filter(note => note.priority === priority).length }))
+        .filter(({ count }) => count > 0)
+        .map(({ priority, count }) => `${getPriorityConfig(priority).icon} ${count}`)
+        .join(' ');
+}
+
+/**
+ * Status bar entry with the note counts of the active file and the workspace.
+ * Clicking it lists the notes of the active file.
+ */
+export class NoteStatusBar implements vscode.Disposable {
+    private workspaceManager: WorkspaceManager;
+    private item: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(workspaceManager: WorkspaceManager) {
+        this.workspaceManager = workspaceManager;
+
+        this.item = vscode.window.createStatusBarItem('reviewNotes.status', vscode.StatusBarAlignment.Right, 100);
+        this.item.name = 'Review Notes';
+        this.item.command = 'reviewNotes.showFileNotes';
+
+        this.disposables.push(
+            workspaceManager.onDidChange(() => this.update()),
+            workspaceManager.onDidChangeFolders(() => this.update()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.update())
+        );
+
+        this.update();
+    }
+
+    /**
+     * Get the notes of the active file
+     */
+    private getActiveFileNotes(): Note[] {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        return uri ? this.workspaceManager.getStorage(uri)?.getNotesForFile(uri) ?? [] : [];
+    }
+
+    /**
+     * Refresh the counts
+     */
+    public update(): void {
+        const total = this.workspaceManager.getStorages()
+            .reduce((sum, storage) => sum + storage.getTotalNoteCount(), 0);
+
+        if (total === 0) {
+            this.item.hide();
+            return;
+        }
+
+        const fileNotes = this.getActiveFileNotes();
+        const fileText = fileNotes.length > 0
+            ? `${fileNotes.length} ${formatPriorityCounts(fileNotes)} · `
+            : '';
+
+        this.item.text = `$(comment) ${fileText}${total} total`;
+        this.item.tooltip = fileNotes.length > 0
+            ? `Review Notes: ${fileNotes.length} in this file, ${total} in the workspace. Click to list this file's notes.`
+            : `Review Notes: ${total} in the workspace`;
+        this.item.show();
+    }
+
+    /**
+     * Dispose the status bar item and event listeners
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.item.dispose();
+    }
+}
+
+/**
+ * Register the status bar item and the command listing the active file's notes
+ */
+export function registerStatusBar(context: vscode.ExtensionContext, workspaceManager: WorkspaceManager): NoteStatusBar {
+    const statusBar = new NoteStatusBar(workspaceManager);
+
+    const showFileNotesCommand = vscode.commands.registerCommand('reviewNotes.showFileNotes', async () => {
+        const editor = vscode.window.activeTextEditor;
+        const storage = editor ? workspaceManager.getStorage(editor.document.uri) : undefined;
+        const notes = editor && storage ? storage.getNotesForFile(editor.document.uri) : [];
+
+        if (!editor || !storage || notes.length === 0) {
+            vscode.window.showInformationMessage('Review Notes: No notes in this file');
+            return;
+        }
+
+        interface NoteOption extends vscode.QuickPickItem {
+            note: Note;
+        }
+
+        const options: NoteOption[] = [...notes]
+            .sort((a, b) => a.line - b.line)
+            .map(note => {
+                const status = note.status === 'open' ? '' : ` · ${STATUS_CONFIG[note.status].label}`;
+                return {
+                    label: `${getCategoryConfig(note.category).icon} ${note.text.split(/\r?\n/)[0]}`,
+                    description: `${formatNoteRange(note)} ${getPriorityConfig(note.priority).icon}${status}`,
+                    detail: note.author,
+                    note,
+                };
+            });
+
+        const picked = await vscode.window.showQuickPick(options, {
+            title: 'Notes in This File',
+            placeHolder: 'Select a note to go to',
+            matchOnDescription: true,
+        });
+
+        if (picked) {
+            const filePath = storage.getNoteById(picked.note.id)?.filePath;
+            await vscode.commands.executeCommand('reviewNotes.goToNote', picked.note, filePath, storage.getWorkspaceRoot());
+        }
+    });
+
+    context.subscriptions.push(statusBar, showFileNotesCommand);
+
+    return statusBar;
+}
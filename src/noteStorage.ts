@@ -1,14 +1,10 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import * as path from 'path';
-import { Note, getRelativePath, normalizeFilePath, debounce, migrateNote, Priority, Category } from './utils';
-
-const NOTES_FILENAME = '.notes.json';
-
-/**
- * Storage structure: { [relativePath: string]: Note[] }
- */
-export type NotesData = { [relativePath: string]: Note[] };
+import { Note, NoteReply, getRelativePath, getAbsolutePath, normalizeFilePath, debounce, Priority, Category, NoteStatus, NoteTypeConfig } from './utils';
+import { createAnchor, relocateAnchor } from './noteAnchor';
+import { mergeNotes, resolveConflicts, NoteConflict, ConflictResolution } from './noteMerge';
+import { NotesBackend, StorageLayout, createNotesBackend, removeNotesFile } from './storageBackend';
+import { parseNotes, serializeNotes } from './notesFormat';
 
 /**
  * Event emitter for note changes
@@ -16,19 +12,36 @@ export type NotesData = { [relativePath: string]: Note[] };
 export type NoteChangeListener = () => void;
 
 /**
- * Manages persistence of notes to .notes.json file
+ * Manages persistence of notes to .notes.json, or to one file per source file under .notes/
  */
 export class NoteStorage {
     private workspaceRoot: string;
-    private notesFilePath: string;
+    private backend: NotesBackend;
     private notes: Map<string, Note[]> = new Map();
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private noteTypes: NoteTypeConfig | undefined;
+    private fileWatcher: vscode.Disposable | undefined;
+    private sourceWatcher: vscode.Disposable | undefined;
+    // Whether files with notes exist, checked once and then kept up to date from file events,
+    // so views refreshed on every edit do not hit the disk
+    private fileExists = new Map<string, boolean>();
+    private onExternalChange: (() => void) | undefined;
     private saveDebounced: () => void;
     private changeListeners: NoteChangeListener[] = [];
 
+    // Stored content as last read or written, the base for merging external changes
+    private lastContent: string | undefined;
+    private baseNotes: Map<string, Note[]> = new Map();
+    private baseNoteTypes: NoteTypeConfig | undefined;
+    private dirty = false;
+    private saving = false;
+    // Set when the stored notes changed on disk while a save was running
+    private externalChangePending = false;
+    // Stored files last reported as unreadable, so the warning is not repeated on every change
+    private reportedUnreadable = '';
+
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
-        this.notesFilePath = path.join(workspaceRoot, NOTES_FILENAME);
+        this.backend = createNotesBackend(workspaceRoot);
 
         // Debounce saves to avoid performance issues
         this.saveDebounced = debounce(() => this.saveNow(), 500);
@@ -41,6 +54,20 @@ export class NoteStorage {
         return this.workspaceRoot;
     }
 
+    /**
+     * Get how notes are laid out on disk
+     */
+    public getStorageLayout(): StorageLayout {
+        return this.backend.layout;
+    }
+
+    /**
+     * Get categories and priorities defined in the notes file, if any
+     */
+    public getNoteTypes(): NoteTypeConfig | undefined {
+        return this.noteTypes;
+    }
+
     /**
      * Register a listener for note changes
      */
@@ -62,21 +89,27 @@ export class NoteStorage {
     }
 
     /**
-     * Load notes from .notes.json file
+     * Remember file content as the base for the next merge
+     */
+    private setBase(content: string | undefined): void {
+        this.lastContent = content;
+        const { notes, noteTypes } = content ? parseNotes(content) : { notes: new Map(), noteTypes: undefined };
+        this.baseNotes = notes;
+        this.baseNoteTypes = noteTypes;
+    }
+
+    /**
+     * Load notes from disk
      */
     public async load(): Promise<void> {
         try {
-            if (fs.existsSync(this.notesFilePath)) {
-                const content = await fs.promises.readFile(this.notesFilePath, 'utf-8');
-                const data: NotesData = JSON.parse(content);
-
-                // Convert to Map and migrate old notes
-                this.notes.clear();
-                for (const [filePath, notes] of Object.entries(data)) {
-                    // Migrate each note to ensure it has all required fields
-                    const migratedNotes = notes.map(note => migrateNote(note));
-                    this.notes.set(normalizeFilePath(filePath), migratedNotes);
-                }
+            const content = await this.backend.read();
+            this.reportUnreadableFiles();
+            if (content !== undefined) {
+                const { notes, noteTypes } = parseNotes(content);
+                this.notes = notes;
+                this.noteTypes = noteTypes;
+                this.setBase(content);
 
                 console.log(`Review Notes: Loaded ${this.getTotalNoteCount()} notes`);
             }
@@ -86,6 +119,74 @@ export class NoteStorage {
         }
     }
 
+    /**
+     * Warn about stored files that could not be read, such as files with merge conflict markers
+     */
+    private reportUnreadableFiles(): void {
+        const files = [...this.backend.unreadableFiles.entries()];
+        const reported = files.map(([file]) => file).join('\n');
+        if (reported === this.reportedUnreadable) {
+            return;
+        }
+        this.reportedUnreadable = reported;
+
+        for (const [file, reason] of files) {
+            console.error(`Review Notes: Cannot read ${file}: ${reason}`);
+        }
+        if (files.length > 0) {
+            const names = files.map(([file]) => file).join(', ');
+            const consequence = files.length === 1
+                ? 'Its notes are not loaded and the file is left unchanged until it is fixed.'
+                : 'Their notes are not loaded and the files are left unchanged until they are fixed.';
+            vscode.window.showWarningMessage(`Review Notes: Could not read ${names}. ${consequence}`);
+        }
+    }
+
+    /**
+     * Three-way merge content changed on disk into the notes in memory,
+     * asking the user how to settle notes changed on both sides.
+     * No content means the notes were deleted on disk.
+     */
+    private async mergeFromDisk(content: string | undefined): Promise<void> {
+        const theirs = content !== undefined ? parseNotes(content) : { notes: new Map<string, Note[]>(), noteTypes: undefined };
+        const { merged, conflicts } = mergeNotes(this.baseNotes, this.notes, theirs.notes);
+
+        const resolution = conflicts.length > 0 ? await this.askConflictResolution(conflicts) : 'mine';
+        this.notes = resolveConflicts(merged, conflicts, resolution);
+
+        // Category/priority definitions are taken from disk unless changed here
+        if (JSON.stringify(this.noteTypes) === JSON.stringify(this.baseNoteTypes)) {
+            this.noteTypes = theirs.noteTypes;
+        }
+
+        this.setBase(content);
+        console.log(`Review Notes: Merged external changes to ${this.backend.displayName} (${conflicts.length} conflicts)`);
+    }
+
+    /**
+     * Ask how to settle notes changed both here and on disk; dismissing keeps both versions
+     */
+    private async askConflictResolution(conflicts: NoteConflict[]): Promise<ConflictResolution> {
+        const summaries = conflicts.slice(0, 10).map(conflict => {
+            const note = conflict.mine ?? conflict.theirs;
+            const change = !conflict.mine ? 'deleted here' : !conflict.theirs ? 'deleted on disk' : 'edited on both sides';
+            return `• ${note?.filePath}:${(note?.line ?? 0) + 1} "${note?.text.split(/\r?\n/)[0]}" (${change})`;
+        });
+        if (conflicts.length > summaries.length) {
+            summaries.push(`• and ${conflicts.length - summaries.length} more`);
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `${conflicts.length} review note${conflicts.length === 1 ? ' was' : 's were'} changed both in this window and in ${this.backend.displayName} on disk.`,
+            { modal: true, detail: summaries.join('\n') },
+            'Keep Mine',
+            'Keep Theirs',
+            'Keep Both'
+        );
+
+        return choice === 'Keep Mine' ? 'mine' : choice === 'Keep Theirs' ? 'theirs' : 'both';
+    }
+
     /**
      * Get total number of notes across all files
      */
@@ -112,32 +213,89 @@ export class NoteStorage {
     }
 
     /**
-     * Save notes to .notes.json file (debounced)
+     * Save notes to disk (debounced)
      */
     public save(): void {
+        this.dirty = true;
         this.saveDebounced();
     }
 
     /**
-     * Save notes immediately without debouncing
+     * Save notes immediately without debouncing.
+     * If the notes changed or were deleted on disk since they were last read, the changes are merged in first.
      */
     private async saveNow(): Promise<void> {
+        this.saving = true;
         try {
-            // Convert Map to plain object
-            const data: NotesData = {};
-            for (const [filePath, notes] of this.notes.entries()) {
-                if (notes.length > 0) {
-                    data[filePath] = notes;
-                }
+            this.followLayoutChange();
+            const diskContent = await this.backend.read();
+            const changedOnDisk = diskContent !== this.lastContent;
+            if (changedOnDisk) {
+                await this.mergeFromDisk(diskContent);
             }
 
-            const content = JSON.stringify(data, null, 2);
-            await fs.promises.writeFile(this.notesFilePath, content, 'utf-8');
+            this.dirty = false;
+            this.setBase(await this.backend.write(serializeNotes(this.notes, this.noteTypes)));
             this.notifyChange();
+            if (changedOnDisk) {
+                this.onExternalChange?.();
+            }
         } catch (error) {
             console.error('Failed to save notes:', error);
             vscode.window.showErrorMessage('Failed to save review notes');
+        } finally {
+            this.saving = false;
+            if (this.externalChangePending) {
+                this.externalChangePending = false;
+                void this.handleExternalChange();
+            }
+        }
+    }
+
+    /**
+     * Switch to the other layout when the stored notes were replaced by it on disk,
+     * e.g. a pull brought a teammate's migration from .notes.json to .notes/.
+     * Returns true if the backend changed.
+     */
+    private followLayoutChange(): boolean {
+        if (this.backend.exists()) {
+            return false;
+        }
+        const detected = createNotesBackend(this.workspaceRoot);
+        if (detected.layout === this.backend.layout || !detected.exists()) {
+            return false;
         }
+
+        console.log(`Review Notes: ${this.backend.displayName} was replaced by ${detected.displayName} in ${this.workspaceRoot}`);
+        this.backend = detected;
+        if (this.onExternalChange) {
+            this.fileWatcher?.dispose();
+            this.fileWatcher = this.watchBackend();
+        }
+        return true;
+    }
+
+    /**
+     * Move notes from .notes.json to one file per source file under .notes/
+     */
+    public async migrateToDirectory(): Promise<void> {
+        if (this.backend.layout === 'directory') {
+            return;
+        }
+
+        // Write pending changes and pick up external ones before switching
+        await this.saveNow();
+
+        this.backend = createNotesBackend(this.workspaceRoot, 'directory');
+        this.setBase(await this.backend.write(serializeNotes(this.notes, this.noteTypes)));
+        await removeNotesFile(this.workspaceRoot);
+
+        if (this.onExternalChange) {
+            this.fileWatcher?.dispose();
+            this.fileWatcher = this.watchBackend();
+        }
+
+        console.log(`Review Notes: Migrated notes of ${this.workspaceRoot} to ${this.backend.displayName}`);
     }
 
     /**
@@ -213,6 +371,213 @@ export class NoteStorage {
         }
     }
 
+    /**
+     * Update a note's review status
+     */
+    public updateNoteStatus(noteId: string, status: NoteStatus): void {
+        const result = this.getNoteById(noteId);
+        if (result) {
+            result.note.status = status;
+            result.note.timestamp = Date.now();
+            this.save();
+        }
+    }
+
+    /**
+     * Add a reply to a note
+     */
+    public addReply(noteId: string, reply: NoteReply): void {
+        const result = this.getNoteById(noteId);
+        if (result) {
+            result.note.replies.push(reply);
+            this.save();
+        }
+    }
+
+    /**
+     * Update a reply's text
+     */
+    public updateReply(noteId: string, replyId: string, newText: string): void {
+        const reply = this.getNoteById(noteId)?.note.replies.find(r => r.id === replyId);
+        if (reply) {
+            reply.text = newText;
+            reply.timestamp = Date.now();
+            this.save();
+        }
+    }
+
+    /**
+     * Delete a reply
+     */
+    public deleteReply(noteId: string, replyId: string): void {
+        const result = this.getNoteById(noteId);
+        if (result) {
+            const index = result.note.replies.findIndex(r => r.id === replyId);
+            if (index > -1) {
+                result.note.replies.splice(index, 1);
+                this.save();
+            }
+        }
+    }
+
+    /**
+     * Merge notes from another checkout or an export. Notes whose id already exists,
+     * or that match an existing note in the same file by line and text, are skipped.
+     */
+    public importNotes(imported: Map<string, Note[]>): { added: number; skipped: number } {
+        let added = 0;
+        let skipped = 0;
+
+        for (const [filePath, notes] of imported.entries()) {
+            const relativePath = normalizeFilePath(filePath);
+            const fileNotes = this.notes.get(relativePath) || [];
+            this.notes.set(relativePath, fileNotes);
+
+            for (const note of notes) {
+                const duplicate = this.getNoteById(note.id) !== undefined
+                    || fileNotes.some(n => n.line === note.line && n.text === note.text);
+
+                if (duplicate) {
+                    skipped++;
+                } else {
+                    fileNotes.push(note);
+                    added++;
+                }
+            }
+
+            if (fileNotes.length === 0) {
+                this.notes.delete(relativePath);
+            }
+        }
+
+        if (added > 0) {
+            this.save();
+        }
+
+        return { added, skipped };
+    }
+
+    /**
+     * Move note ranges in a file in memory (no save), e.g. while the document is being edited.
+     * Returns true if any note moved.
+     */
+    public shiftNoteRanges(fileUri: vscode.Uri, shift: (range: vscode.Range) => vscode.Range): boolean {
+        const relativePath = normalizeFilePath(getRelativePath(fileUri.fsPath, this.workspaceRoot));
+        const fileNotes = this.notes.get(relativePath);
+
+        if (!fileNotes) {
+            return false;
+        }
+
+        let moved = false;
+        for (const note of fileNotes) {
+            const range = new vscode.Range(note.line, note.startCharacter, note.endLine, note.endCharacter);
+            const newRange = shift(range);
+            if (!newRange.isEqual(range)) {
+                note.line = newRange.start.line;
+                note.startCharacter = newRange.start.character;
+                note.endLine = newRange.end.line;
+                note.endCharacter = newRange.end.character;
+                moved = true;
+            }
+        }
+
+        if (moved) {
+            this.notifyChange();
+        }
+
+        return moved;
+    }
+
+    /**
+     * Refresh the anchor snapshot of every located note in a file from its current content
+     */
+    public anchorNotes(fileUri: vscode.Uri, lines: string[]): void {
+        const relativePath = normalizeFilePath(getRelativePath(fileUri.fsPath, this.workspaceRoot));
+        const fileNotes = this.notes.get(relativePath);
+
+        if (!fileNotes) {
+            return;
+        }
+
+        let changed = false;
+        for (const note of fileNotes) {
+            if (note.orphaned) {
+                // Keep the old snapshot so the note can still be found later
+                continue;
+            }
+
+            const anchor = createAnchor(lines, note.line);
+            if (JSON.stringify(anchor) !== JSON.stringify(note.anchor)) {
+                note.anchor = anchor;
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.save();
+        }
+    }
+
+    /**
+     * Relocate notes in a file to the best match of their anchor in the current content.
+     * Notes that cannot be matched confidently are flagged as orphaned.
+     */
+    public relocateNotes(fileUri: vscode.Uri, lines: string[]): void {
+        const relativePath = normalizeFilePath(getRelativePath(fileUri.fsPath, this.workspaceRoot));
+        const fileNotes = this.notes.get(relativePath);
+
+        if (!fileNotes) {
+            return;
+        }
+
+        let changed = false;
+        for (const note of fileNotes) {
+            if (!note.anchor) {
+                // Legacy note: adopt its current line as the anchor
+                note.anchor = createAnchor(lines, note.line);
+                changed = true;
+                continue;
+            }
+
+            const newLine = relocateAnchor(lines, note.anchor, note.line);
+            if (newLine === undefined) {
+                if (!note.orphaned) {
+                    note.orphaned = true;
+                    changed = true;
+                }
+                continue;
+            }
+
+            if (newLine !== note.line || note.orphaned) {
+                note.endLine = newLine + (note.endLine - note.line);
+                note.line = newLine;
+                note.anchor = createAnchor(lines, newLine);
+                delete note.orphaned;
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.save();
+        }
+    }
+
+    /**
+     * Accept an orphaned note's current line as its new anchor
+     */
+    public reanchorNote(noteId: string, lines: string[]): void {
+        const result = this.getNoteById(noteId);
+        if (result) {
+            const line = Math.min(result.note.line, Math.max(0, lines.length - 1));
+            result.note.endLine = Math.max(line, result.note.endLine - (result.note.line - line));
+            result.note.line = line;
+            result.note.anchor = createAnchor(lines, line);
+            delete result.note.orphaned;
+            this.save();
+        }
+    }
+
     /**
      * Delete a note
      */
@@ -236,21 +601,153 @@ export class NoteStorage {
     }
 
     /**
-     * Watch for external changes to .notes.json
+     * Remove and return the notes of a file, or of every file under a folder, keyed by absolute path
+     */
+    public takeNotes(uri: vscode.Uri): Map<string, Note[]> {
+        const relativePath = normalizeFilePath(getRelativePath(uri.fsPath, this.workspaceRoot));
+        const taken = new Map<string, Note[]>();
+
+        for (const [filePath, notes] of this.notes.entries()) {
+            if (filePath === relativePath || filePath.startsWith(`${relativePath}/`)) {
+                taken.set(getAbsolutePath(filePath, this.workspaceRoot), notes);
+                this.notes.delete(filePath);
+            }
+        }
+
+        if (taken.size > 0) {
+            this.save();
+        }
+        return taken;
+    }
+
+    /**
+     * Add notes to a file, e.g. after they were taken from the file's old path
+     */
+    public putNotes(uri: vscode.Uri, notes: Note[]): void {
+        const relativePath = normalizeFilePath(getRelativePath(uri.fsPath, this.workspaceRoot));
+        this.notes.set(relativePath, [...(this.notes.get(relativePath) || []), ...notes]);
+        this.save();
+    }
+
+    /**
+     * Get the paths of files that have notes but no longer exist
+     */
+    public getMissingFiles(): string[] {
+        return this.getFilesWithNotes().filter(filePath => {
+            let exists = this.fileExists.get(filePath);
+            if (exists === undefined) {
+                exists = fs.existsSync(getAbsolutePath(filePath, this.workspaceRoot));
+                this.fileExists.set(filePath, exists);
+            }
+            return !exists;
+        });
+    }
+
+    /**
+     * Check again whether a file, or the files under a folder, exist; returns whether any of them has notes
+     */
+    public forgetFileExistence(uri: vscode.Uri): boolean {
+        const relativePath = normalizeFilePath(getRelativePath(uri.fsPath, this.workspaceRoot));
+        for (const filePath of [...this.fileExists.keys()]) {
+            if (filePath === relativePath || filePath.startsWith(`${relativePath}/`)) {
+                this.fileExists.delete(filePath);
+            }
+        }
+        return this.getFilesWithNotes().some(filePath => filePath === relativePath || filePath.startsWith(`${relativePath}/`));
+    }
+
+    /**
+     * Delete all notes of a file, returning how many were deleted
+     */
+    public deleteNotesForFile(filePath: string): number {
+        const count = this.notes.get(filePath)?.length ?? 0;
+        if (this.notes.delete(filePath)) {
+            this.save();
+        }
+        return count;
+    }
+
+    /**
+     * Watch for external changes to .notes.json or .notes/
      */
     public watchFile(onExternalChange: () => void): vscode.Disposable {
-        const pattern = new vscode.RelativePattern(this.workspaceRoot, NOTES_FILENAME);
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+        this.onExternalChange = onExternalChange;
+        this.fileWatcher = this.watchBackend();
+        this.sourceWatcher = this.watchSourceFiles();
 
-        this.fileWatcher.onDidChange(() => {
-            // Reload and notify
-            this.load().then(() => {
-                this.notifyChange();
-                onExternalChange();
-            });
+        return new vscode.Disposable(() => {
+            this.onExternalChange = undefined;
+            this.fileWatcher?.dispose();
+            this.sourceWatcher?.dispose();
         });
+    }
+
+    /**
+     * Watch the stored notes for changes made outside the extension
+     */
+    private watchBackend(): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(this.workspaceRoot, this.backend.watchPattern)
+        );
+
+        // A pull or checkout touches many files at once; handle them together
+        const onChange = debounce(() => this.handleExternalChange(), 300);
+        watcher.onDidChange(onChange);
+        watcher.onDidCreate(onChange);
+        watcher.onDidDelete(onChange);
+        return watcher;
+    }
+
+    /**
+     * Follow files created or deleted outside VS Code (a checkout, a build), moving their notes
+     * in or out of Missing Files
+     */
+    private watchSourceFiles(): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(this.workspaceRoot, '**/*'), false, true, false
+        );
+
+        const onCreateOrDelete = (uri: vscode.Uri) => {
+            if (this.forgetFileExistence(uri)) {
+                this.notifyChange();
+            }
+        };
+        watcher.onDidCreate(onCreateOrDelete);
+        watcher.onDidDelete(onCreateOrDelete);
+        return watcher;
+    }
+
+    /**
+     * Merge notes changed on disk by another process
+     */
+    private async handleExternalChange(): Promise<void> {
+        // Check again once the save in progress has written its content
+        if (this.saving) {
+            this.externalChangePending = true;
+            return;
+        }
+
+        try {
+            // Read the notes where they are now, rather than taking the old location being gone as every note deleted
+            this.followLayoutChange();
+            const content = await this.backend.read();
+            this.reportUnreadableFiles();
+            if (content === this.lastContent) {
+                // Unchanged since we last read or wrote it, e.g. our own save
+                return;
+            }
+
+            // Merge instead of reloading, so changes not yet written are kept
+            await this.mergeFromDisk(content);
+            if (this.dirty) {
+                this.save();
+            }
 
-        return this.fileWatcher;
+            this.notifyChange();
+            this.onExternalChange?.();
+        } catch (error) {
+            console.error('Failed to merge external changes to notes:', error);
+        }
     }
 
     /**
@@ -258,5 +755,6 @@ export class NoteStorage {
      */
     public dispose(): void {
         this.fileWatcher?.dispose();
+        this.sourceWatcher?.dispose();
     }
 }
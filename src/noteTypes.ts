@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import { NoteTypeConfig, configureNoteTypes, getCategories, getPriorities } from './utils';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * Apply categories and priorities from the notes files of all workspace folders
+ * and from settings (settings win)
+ */
+export function applyNoteTypes(workspaceManager: WorkspaceManager): void {
+    const config = vscode.workspace.getConfiguration('reviewNotes');
+    const settings: NoteTypeConfig = {
+        categories: config.get('categories', []),
+        priorities: config.get('priorities', []),
+    };
+
+    const fileTypes = workspaceManager.getStorages().map(storage => storage.getNoteTypes() ?? {});
+    configureNoteTypes([...fileTypes, settings]);
+}
+
+/**
+ * Keep categories and priorities in sync with settings and the notes file
+ */
+export function watchNoteTypes(workspaceManager: WorkspaceManager, onDidChange: () => void): vscode.Disposable {
+    const configListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('reviewNotes.categories') || event.affectsConfiguration('reviewNotes.priorities')) {
+            applyNoteTypes(workspaceManager);
+            onDidChange();
+        }
+    });
+
+    // A notes file may define its own set (e.g. after a pull). Storage changes on every edit,
+    // so views are only refreshed when the applied set differs.
+    const storageListener = workspaceManager.onDidChange(() => {
+        const previous = JSON.stringify([getCategories(), getPriorities()]);
+        applyNoteTypes(workspaceManager);
+        if (JSON.stringify([getCategories(), getPriorities()]) !== previous) {
+            onDidChange();
+        }
+    });
+
+    // Folders bring their own notes files
+    const foldersListener = workspaceManager.onDidChangeFolders(() => {
+        applyNoteTypes(workspaceManager);
+        onDidChange();
+    });
+
+    return vscode.Disposable.from(configListener, storageListener, foldersListener);
+}
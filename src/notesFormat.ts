@@ -0,0 +1,42 @@
+import { Note, NoteTypeConfig, normalizeFilePath, migrateNote } from './utils';
+
+/**
+ * Reserved key in .notes.json (and $config.json in .notes/) holding team-defined categories and priorities
+ */
+export const NOTE_TYPES_KEY = '$config';
+
+/**
+ * Storage structure: { [relativePath: string]: Note[] }
+ */
+export type NotesData = { [relativePath: string]: Note[] };
+
+/**
+ * Parse the content of a notes file, migrating notes written by older versions
+ */
+export function parseNotes(content: string): { notes: Map<string, Note[]>; noteTypes: NoteTypeConfig | undefined } {
+    const { [NOTE_TYPES_KEY]: noteTypes, ...data } = JSON.parse(content);
+
+    const notes = new Map<string, Note[]>();
+    for (const [filePath, fileNotes] of Object.entries(data as NotesData)) {
+        notes.set(normalizeFilePath(filePath), fileNotes.map(note => migrateNote(note)));
+    }
+
+    return { notes, noteTypes };
+}
+
+/**
+ * Serialize notes, keeping the category/priority definitions first and dropping files without notes
+ */
+export function serializeNotes(notes: Map<string, Note[]>, noteTypes: NoteTypeConfig | undefined): string {
+    const data: { [key: string]: Note[] | NoteTypeConfig } = {};
+    if (noteTypes) {
+        data[NOTE_TYPES_KEY] = noteTypes;
+    }
+    for (const [filePath, fileNotes] of notes.entries()) {
+        if (fileNotes.length > 0) {
+            data[filePath] = fileNotes;
+        }
+    }
+
+    return JSON.stringify(data, null, 2);
+}
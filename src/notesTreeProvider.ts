@@ -1,7 +1,106 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { Note, PRIORITY_CONFIG, CATEGORY_CONFIG, getAbsolutePath } from './utils';
+import { Note, NoteReply, STATUS_CONFIG, getPriorities, getCategories, getPriorityConfig, getCategoryConfig, getAbsolutePath, formatNoteRange } from './utils';
 import { NoteStorage } from './noteStorage';
+import { NoteFilterState } from './noteFilter';
+import { matchesFilter } from './noteQuery';
+import { WorkspaceManager, getWorkspaceFolderName } from './workspaceManager';
+
+/**
+ * How the explorer groups notes
+ */
+export type GroupingMode = 'file' | 'folder' | 'category' | 'priority' | 'author' | 'date';
+
+/**
+ * Grouping display configuration
+ */
+const GROUPING_CONFIG: Record<GroupingMode, { label: string; detail: string }> = {
+    file: { label: '$(file) File', detail: 'One node per file, notes sorted by line' },
+    folder: { label: '$(folder) Folder', detail: 'Files nested in their folder hierarchy' },
+    category: { label: '$(tag) Category', detail: 'TODO, BUG, QUESTION, IDEA, NOTE and custom categories' },
+    priority: { label: '$(flame) Priority', detail: 'High, Medium, Low and custom priorities' },
+    author: { label: '$(person) Author', detail: 'One node per note author' },
+    date: { label: '$(history) Date', detail: 'Flat list, most recently changed first' },
+};
+
+const GROUPING_STATE_KEY = 'reviewNotes.grouping';
+
+/**
+ * A note together with the file it belongs to
+ */
+interface NoteEntry {
+    note: Note;
+    filePath: string;
+}
+
+/**
+ * Tree item representing a workspace folder (multi-root workspaces only)
+ */
+class WorkspaceFolderTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly storage: NoteStorage,
+        noteCount: number
+    ) {
+        super(getWorkspaceFolderName(storage.getWorkspaceRoot()), vscode.TreeItemCollapsibleState.Expanded);
+
+        this.description = `${noteCount} note${noteCount === 1 ? '' : 's'}`;
+        this.tooltip = storage.getWorkspaceRoot();
+        this.contextValue = 'workspaceFolder';
+        this.iconPath = new vscode.ThemeIcon('root-folder');
+    }
+}
+
+/**
+ * Tree item collecting the notes of files that no longer exist
+ */
+class MissingFilesTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly entries: NoteEntry[],
+        public readonly workspaceRoot: string
+    ) {
+        super('Missing Files', vscode.TreeItemCollapsibleState.Expanded);
+
+        this.description = `${entries.length} note${entries.length === 1 ? '' : 's'}`;
+        this.tooltip = 'Notes of deleted or moved files. Reattach them to a file or delete them.';
+        this.contextValue = 'missingFiles';
+        this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+    }
+}
+
+/**
+ * Tree item representing a folder with notes (folder grouping)
+ */
+class FolderTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly folderPath: string,
+        public readonly entries: NoteEntry[],
+        public readonly workspaceRoot: string
+    ) {
+        super(path.posix.basename(folderPath), vscode.TreeItemCollapsibleState.Expanded);
+
+        this.description = `${entries.length} note${entries.length === 1 ? '' : 's'}`;
+        this.tooltip = folderPath;
+        this.contextValue = 'noteFolder';
+        this.iconPath = vscode.ThemeIcon.Folder;
+        this.resourceUri = vscode.Uri.file(getAbsolutePath(folderPath, workspaceRoot));
+    }
+}
+
+/**
+ * Tree item representing a category, priority or author group
+ */
+class GroupTreeItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly entries: NoteEntry[],
+        public readonly workspaceRoot: string
+    ) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.description = `${entries.length} note${entries.length === 1 ? '' : 's'}`;
+        this.contextValue = 'noteGroup';
+    }
+}
 
 /**
  * Tree item representing a file with notes
@@ -10,17 +109,23 @@ class FileTreeItem extends vscode.TreeItem {
     constructor(
         public readonly filePath: string,
         public readonly notes: Note[],
-        public readonly workspaceRoot: string
+        public readonly workspaceRoot: string,
+        missing: boolean = false
     ) {
-        super(path.basename(filePath), vscode.TreeItemCollapsibleState.Expanded);
+        super(missing ? filePath.replace(/^\.\//, '') : path.basename(filePath), vscode.TreeItemCollapsibleState.Expanded);
 
         this.description = `${notes.length} note${notes.length === 1 ? '' : 's'}`;
-        this.tooltip = filePath;
-        this.contextValue = 'noteFile';
-        this.iconPath = new vscode.ThemeIcon('file');
+        this.tooltip = missing ? `${filePath} (file not found)` : filePath;
+        this.contextValue = missing ? 'missingFile' : 'noteFile';
 
-        // Set resource URI for file icon theme
-        this.resourceUri = vscode.Uri.file(getAbsolutePath(filePath, workspaceRoot));
+        if (missing) {
+            this.iconPath = new vscode.ThemeIcon('file', new vscode.ThemeColor('disabledForeground'));
+        } else {
+            this.iconPath = new vscode.ThemeIcon('file');
+
+            // Set resource URI for file icon theme
+            this.resourceUri = vscode.Uri.file(getAbsolutePath(filePath, workspaceRoot));
+        }
     }
 }
 
@@ -31,23 +136,41 @@ class NoteTreeItem extends vscode.TreeItem {
     constructor(
         public readonly note: Note,
         public readonly filePath: string,
-        public readonly workspaceRoot: string
+        public readonly workspaceRoot: string,
+        showFile: boolean = false
     ) {
-        const priorityConfig = PRIORITY_CONFIG[note.priority];
-        const categoryConfig = CATEGORY_CONFIG[note.category];
+        const priorityConfig = getPriorityConfig(note.priority);
+        const categoryConfig = getCategoryConfig(note.category);
 
         // Truncate text for display
         const displayText = note.text.length > 50
             ? note.text.substring(0, 50) + '...'
             : note.text;
 
-        super(`${categoryConfig.icon} ${displayText}`, vscode.TreeItemCollapsibleState.None);
+        super(
+            `${categoryConfig.icon} ${displayText}`,
+            note.replies.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
 
-        this.description = `Line ${note.line + 1} ${priorityConfig.icon}`;
+        const rangeLabel = formatNoteRange(note);
+        const location = showFile ? `${path.basename(filePath)} · ${rangeLabel}` : rangeLabel;
+        const flags: string[] = [];
+        if (note.status !== 'open') {
+            flags.push(STATUS_CONFIG[note.status].label.toLowerCase());
+        }
+        if (note.orphaned) {
+            flags.push('orphaned');
+        }
+        this.description = [`${location} ${priorityConfig.icon}`, ...flags].join(' · ');
+
+        const orphanedWarning = note.orphaned
+            ? '\n\n$(warning) *The noted code could not be found in the current file.*'
+            : '';
         this.tooltip = new vscode.MarkdownString(
-            `**${categoryConfig.label}** | ${priorityConfig.label}\n\n${note.text}\n\n*${note.author} • ${new Date(note.timestamp).toLocaleString()}*`
+            `**${categoryConfig.label}** | ${priorityConfig.label} | ${STATUS_CONFIG[note.status].label} | ${rangeLabel}\n\n${note.text}\n\n*${note.author} • ${new Date(note.timestamp).toLocaleString()}*${orphanedWarning}`,
+            true
         );
-        this.contextValue = 'note';
+        this.contextValue = note.orphaned ? 'orphanedNote' : 'note';
 
         // Command to navigate to the note location
         this.command = {
@@ -56,39 +179,107 @@ class NoteTreeItem extends vscode.TreeItem {
             arguments: [this.note, this.filePath, this.workspaceRoot]
         };
 
-        // Icon based on category
-        this.iconPath = this.getCategoryIcon(note.category);
+        // Icon based on category (warning if the note lost its code, dimmed once closed)
+        if (note.orphaned) {
+            this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        } else if (note.status !== 'open') {
+            this.iconPath = new vscode.ThemeIcon(
+                note.status === 'resolved' ? 'pass' : 'circle-slash',
+                new vscode.ThemeColor('disabledForeground')
+            );
+        } else {
+            this.iconPath = this.getCategoryIcon(note.category);
+        }
     }
 
     private getCategoryIcon(category: string): vscode.ThemeIcon {
-        switch (category) {
-            case 'todo': return new vscode.ThemeIcon('checklist');
-            case 'bug': return new vscode.ThemeIcon('bug');
-            case 'question': return new vscode.ThemeIcon('question');
-            case 'idea': return new vscode.ThemeIcon('lightbulb');
-            default: return new vscode.ThemeIcon('note');
-        }
+        const categoryConfig = getCategoryConfig(category);
+        return new vscode.ThemeIcon(
+            categoryConfig.themeIcon,
+            categoryConfig.color ? new vscode.ThemeColor(categoryConfig.color) : undefined
+        );
     }
 }
 
-type TreeItem = FileTreeItem | NoteTreeItem;
+/**
+ * Tree item representing a reply under a note
+ */
+class ReplyTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly reply: NoteReply,
+        public readonly note: Note,
+        public readonly filePath: string,
+        public readonly workspaceRoot: string
+    ) {
+        // Truncate text for display
+        const displayText = reply.text.length > 50
+            ? reply.text.substring(0, 50) + '...'
+            : reply.text;
+
+        super(displayText, vscode.TreeItemCollapsibleState.None);
+
+        this.description = reply.author;
+        this.tooltip = new vscode.MarkdownString(
+            `${reply.text}\n\n*${reply.author} • ${new Date(reply.timestamp).toLocaleString()}*`
+        );
+        this.contextValue = 'reply';
+        this.iconPath = new vscode.ThemeIcon('comment');
+
+        // Replies navigate to their note
+        this.command = {
+            command: 'reviewNotes.goToNote',
+            title: 'Go to Note',
+            arguments: [this.note, this.filePath, this.workspaceRoot]
+        };
+    }
+}
+
+type TreeItem = WorkspaceFolderTreeItem | MissingFilesTreeItem | FolderTreeItem | GroupTreeItem | FileTreeItem | NoteTreeItem | ReplyTreeItem;
 
 /**
  * Tree data provider for the notes explorer
  */
-export class NotesTreeProvider implements vscode.TreeDataProvider<TreeItem> {
+export class NotesTreeProvider implements vscode.TreeDataProvider<TreeItem>, vscode.Disposable {
     private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> =
         new vscode.EventEmitter<TreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> =
         this._onDidChangeTreeData.event;
 
-    private storage: NoteStorage;
-
-    constructor(storage: NoteStorage) {
-        this.storage = storage;
+    private workspaceManager: WorkspaceManager;
+    private filterState: NoteFilterState;
+    private workspaceState: vscode.Memento;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(workspaceManager: WorkspaceManager, filterState: NoteFilterState, workspaceState: vscode.Memento) {
+        this.workspaceManager = workspaceManager;
+        this.filterState = filterState;
+        this.workspaceState = workspaceState;
+
+        this.disposables.push(
+            // Listen for note, workspace folder and filter changes
+            this.workspaceManager.onDidChange(() => this.refresh()),
+            this.workspaceManager.onDidChangeFolders(() => this.refresh()),
+            this.filterState.onDidChange(() => this.refresh()),
+
+            // Notes of deleted files move to Missing Files, and back when the file is restored
+            vscode.workspace.onDidDeleteFiles(() => this.refresh()),
+            vscode.workspace.onDidCreateFiles(() => this.refresh()),
+
+            // Listen for display setting changes
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('reviewNotes.explorer')) {
+                    this.refresh();
+                }
+            })
+        );
+    }
 
-        // Listen for storage changes
-        this.storage.onDidChange(() => this.refresh());
+    /**
+     * Dispose event listeners
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this._onDidChangeTreeData.dispose();
     }
 
     /**
@@ -98,14 +289,57 @@ export class NotesTreeProvider implements vscode.TreeDataProvider<TreeItem> {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Get the grouping mode remembered for this workspace
+     */
+    public getGrouping(): GroupingMode {
+        return this.workspaceState.get<GroupingMode>(GROUPING_STATE_KEY, 'file');
+    }
+
+    /**
+     * Change and remember the grouping mode
+     */
+    public async setGrouping(mode: GroupingMode): Promise<void> {
+        await this.workspaceState.update(GROUPING_STATE_KEY, mode);
+        this.refresh();
+    }
+
     getTreeItem(element: TreeItem): vscode.TreeItem {
         return element;
     }
 
     getChildren(element?: TreeItem): Thenable<TreeItem[]> {
         if (!element) {
-            // Root level - return files with notes
-            return Promise.resolve(this.getFileItems());
+            // Root level - one node per workspace folder, or the grouped notes of the only folder
+            const storages = this.workspaceManager.getStorages();
+            if (storages.length === 1) {
+                return Promise.resolve(this.getRootItems(storages[0]));
+            }
+            return Promise.resolve(this.getWorkspaceFolderItems(storages));
+        }
+
+        if (element instanceof WorkspaceFolderTreeItem) {
+            // Workspace folder level - depends on the grouping mode
+            return Promise.resolve(this.getRootItems(element.storage));
+        }
+
+        if (element instanceof MissingFilesTreeItem) {
+            // Missing files level - one node per file that no longer exists
+            return Promise.resolve(Array.from(groupByFile(element.entries).entries())
+                .sort((a, b) => a[0].localeCompare(b[0]))
+                .map(([filePath, notes]) => new FileTreeItem(filePath, notes, element.workspaceRoot, true)));
+        }
+
+        if (element instanceof FolderTreeItem) {
+            // Folder level - return subfolders and files
+            return Promise.resolve(this.getFolderChildren(element.folderPath, element.entries, element.workspaceRoot));
+        }
+
+        if (element instanceof GroupTreeItem) {
+            // Group level - return notes from any file, sorted by location
+            return Promise.resolve(sortByLocation(element.entries).map(
+                entry => new NoteTreeItem(entry.note, entry.filePath, element.workspaceRoot, true)
+            ));
         }
 
         if (element instanceof FileTreeItem) {
@@ -113,20 +347,110 @@ export class NotesTreeProvider implements vscode.TreeDataProvider<TreeItem> {
             return Promise.resolve(this.getNoteItems(element));
         }
 
+        if (element instanceof NoteTreeItem) {
+            // Note level - return replies in posting order
+            return Promise.resolve(element.note.replies.map(
+                reply => new ReplyTreeItem(reply, element.note, element.filePath, element.workspaceRoot)
+            ));
+        }
+
         return Promise.resolve([]);
     }
 
     /**
-     * Get all files that have notes
+     * Get a node for each workspace folder with visible notes
      */
-    private getFileItems(): FileTreeItem[] {
-        const allNotes = this.storage.getAllNotes();
-        const items: FileTreeItem[] = [];
+    private getWorkspaceFolderItems(storages: NoteStorage[]): WorkspaceFolderTreeItem[] {
+        const items: WorkspaceFolderTreeItem[] = [];
+        for (const storage of storages) {
+            const noteCount = this.getVisibleNotes(storage).length + this.getVisibleNotes(storage, true).length;
+            if (noteCount > 0) {
+                items.push(new WorkspaceFolderTreeItem(storage, noteCount));
+            }
+        }
+        return items;
+    }
 
-        for (const [filePath, notes] of allNotes.entries()) {
-            if (notes.length > 0) {
-                items.push(new FileTreeItem(filePath, notes, this.storage.getWorkspaceRoot()));
+    /**
+     * Get the top-level items of a workspace folder: the notes grouped by the current mode,
+     * followed by the notes of missing files
+     */
+    private getRootItems(storage: NoteStorage): TreeItem[] {
+        const missingEntries = this.getVisibleNotes(storage, true);
+        const items = this.getGroupedItems(storage);
+
+        return missingEntries.length > 0
+            ? [...items, new MissingFilesTreeItem(missingEntries, storage.getWorkspaceRoot())]
+            : items;
+    }
+
+    /**
+     * Get the top-level items of a workspace folder for the current grouping mode
+     */
+    private getGroupedItems(storage: NoteStorage): TreeItem[] {
+        const workspaceRoot = storage.getWorkspaceRoot();
+
+        switch (this.getGrouping()) {
+            case 'folder':
+                return this.getFolderChildren('', this.getVisibleNotes(storage), workspaceRoot);
+            case 'category':
+                return this.getGroupItems(
+                    storage,
+                    note => note.category,
+                    getCategories().map(c => c.id),
+                    key => `${getCategoryConfig(key).icon} ${getCategoryConfig(key).label}`
+                );
+            case 'priority':
+                return this.getGroupItems(
+                    storage,
+                    note => note.priority,
+                    getPriorities().map(p => p.id),
+                    key => `${getPriorityConfig(key).icon} ${getPriorityConfig(key).label}`
+                );
+            case 'author':
+                return this.getGroupItems(storage, note => note.author, undefined, key => key);
+            case 'date':
+                return this.getVisibleNotes(storage)
+                    .sort((a, b) => b.note.timestamp - a.note.timestamp)
+                    .map(entry => new NoteTreeItem(entry.note, entry.filePath, workspaceRoot, true));
+            default:
+                return this.getFileItems(storage);
+        }
+    }
+
+    /**
+     * Get the notes of a workspace folder that pass the resolved setting and the current filter,
+     * either of existing files or of missing files
+     */
+    private getVisibleNotes(storage: NoteStorage, missing: boolean = false): NoteEntry[] {
+        const showResolved = vscode.workspace.getConfiguration('reviewNotes')
+            .get<boolean>('explorer.showResolved', true);
+        const filter = this.filterState.get();
+        const missingFiles = new Set(storage.getMissingFiles());
+        const entries: NoteEntry[] = [];
+
+        for (const [filePath, notes] of storage.getAllNotes().entries()) {
+            if (missingFiles.has(filePath) !== missing) {
+                continue;
             }
+            for (const note of notes) {
+                if ((showResolved || note.status === 'open') && matchesFilter(note, filter)) {
+                    entries.push({ note, filePath });
+                }
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Get all files of a workspace folder that have notes
+     */
+    private getFileItems(storage: NoteStorage): FileTreeItem[] {
+        const items: FileTreeItem[] = [];
+
+        for (const [filePath, notes] of groupByFile(this.getVisibleNotes(storage)).entries()) {
+            items.push(new FileTreeItem(filePath, notes, storage.getWorkspaceRoot()));
         }
 
         // Sort by file path
@@ -135,6 +459,68 @@ export class NotesTreeProvider implements vscode.TreeDataProvider<TreeItem> {
         return items;
     }
 
+    /**
+     * Get the direct subfolders and files of a folder ('' for the workspace root)
+     */
+    private getFolderChildren(folderPath: string, entries: NoteEntry[], workspaceRoot: string): TreeItem[] {
+        const subfolders = new Map<string, NoteEntry[]>();
+        const fileEntries: NoteEntry[] = [];
+
+        for (const entry of entries) {
+            const treePath = entry.filePath.replace(/^\.\//, '');
+            const rest = folderPath ? treePath.substring(folderPath.length + 1) : treePath;
+            const slash = rest.indexOf('/');
+
+            if (slash === -1) {
+                fileEntries.push(entry);
+                continue;
+            }
+
+            const subfolder = folderPath ? `${folderPath}/${rest.substring(0, slash)}` : rest.substring(0, slash);
+            const folderEntries = subfolders.get(subfolder) || [];
+            folderEntries.push(entry);
+            subfolders.set(subfolder, folderEntries);
+        }
+
+        const folderItems = Array.from(subfolders.entries())
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([subfolder, folderEntries]) => new FolderTreeItem(subfolder, folderEntries, workspaceRoot));
+
+        const fileItems = Array.from(groupByFile(fileEntries).entries())
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([filePath, notes]) => new FileTreeItem(filePath, notes, workspaceRoot));
+
+        return [...folderItems, ...fileItems];
+    }
+
+    /**
+     * Group visible notes by a key; known keys keep their configured order, others are sorted
+     */
+    private getGroupItems(
+        storage: NoteStorage,
+        keyOf: (note: Note) => string,
+        order: string[] | undefined,
+        labelOf: (key: string) => string
+    ): GroupTreeItem[] {
+        const groups = new Map<string, NoteEntry[]>();
+
+        for (const entry of this.getVisibleNotes(storage)) {
+            const key = keyOf(entry.note);
+            const groupEntries = groups.get(key) || [];
+            groupEntries.push(entry);
+            groups.set(key, groupEntries);
+        }
+
+        const rank = (key: string) => {
+            const index = order ? order.indexOf(key) : -1;
+            return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+        };
+
+        return Array.from(groups.keys())
+            .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+            .map(key => new GroupTreeItem(labelOf(key), groups.get(key) || [], storage.getWorkspaceRoot()));
+    }
+
     /**
      * Get note items for a file
      */
@@ -145,13 +531,34 @@ export class NotesTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     }
 }
 
+/**
+ * Collect notes per file
+ */
+function groupByFile(entries: NoteEntry[]): Map<string, Note[]> {
+    const files = new Map<string, Note[]>();
+    for (const entry of entries) {
+        const notes = files.get(entry.filePath) || [];
+        notes.push(entry.note);
+        files.set(entry.filePath, notes);
+    }
+    return files;
+}
+
+/**
+ * Sort notes by file path, then line
+ */
+function sortByLocation(entries: NoteEntry[]): NoteEntry[] {
+    return [...entries].sort((a, b) => a.filePath.localeCompare(b.filePath) || a.note.line - b.note.line);
+}
+
 /**
  * Register tree view commands
  */
 export function registerTreeViewCommands(
     context: vscode.ExtensionContext,
-    storage: NoteStorage,
-    provider: any  // ReviewNotesProvider (avoiding circular import)
+    workspaceManager: WorkspaceManager,
+    provider: any,  // ReviewNotesProvider (avoiding circular import)
+    treeProvider: NotesTreeProvider
 ): void {
     // Command to navigate to a note
     const goToNoteCommand = vscode.commands.registerCommand(
@@ -164,11 +571,11 @@ export function registerTreeViewCommands(
                 const document = await vscode.workspace.openTextDocument(uri);
                 const editor = await vscode.window.showTextDocument(document);
 
-                // Move cursor to the note's line
-                const position = new vscode.Position(note.line, 0);
+                // Move cursor to the start of the note's range
+                const position = new vscode.Position(note.line, note.startCharacter);
                 editor.selection = new vscode.Selection(position, position);
                 editor.revealRange(
-                    new vscode.Range(position, position),
+                    new vscode.Range(note.line, note.startCharacter, note.endLine, note.endCharacter),
                     vscode.TextEditorRevealType.InCenter
                 );
 
@@ -193,12 +600,55 @@ export function registerTreeViewCommands(
             const absolutePath = getAbsolutePath(filePath, workspaceRoot);
             const uri = vscode.Uri.file(absolutePath);
 
-            // Delete the note from storage
-            storage.deleteNote(uri, note.id);
+            // Delete the note from its workspace folder's storage
+            workspaceManager.getStorageForRoot(workspaceRoot)?.deleteNote(uri, note.id);
 
             vscode.window.showInformationMessage(`Deleted note from ${filePath}`);
         }
     );
 
-    context.subscriptions.push(goToNoteCommand, deleteNoteCommand);
+    // Command to accept the current line of an orphaned note
+    const reanchorNoteCommand = vscode.commands.registerCommand(
+        'reviewNotes.reanchorNote',
+        async (treeItem: NoteTreeItem) => {
+            const absolutePath = getAbsolutePath(treeItem.filePath, treeItem.workspaceRoot);
+
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.file(absolutePath));
+                workspaceManager.getStorageForRoot(treeItem.workspaceRoot)?.reanchorNote(treeItem.note.id, document.getText().split(/\r?\n/));
+
+                if (provider && provider.renderNotesForFile) {
+                    provider.renderNotesForFile(document.uri);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Could not open file: ${treeItem.filePath}`);
+            }
+        }
+    );
+
+    // Command to switch how the explorer groups notes
+    const groupByCommand = vscode.commands.registerCommand('reviewNotes.groupBy', async () => {
+        interface GroupingOption extends vscode.QuickPickItem {
+            mode: GroupingMode;
+        }
+
+        const current = treeProvider.getGrouping();
+        const options: GroupingOption[] = (Object.keys(GROUPING_CONFIG) as GroupingMode[]).map(mode => ({
+            label: GROUPING_CONFIG[mode].label,
+            detail: GROUPING_CONFIG[mode].detail,
+            description: mode === current ? '$(check) Current' : '',
+            mode,
+        }));
+
+        const picked = await vscode.window.showQuickPick(options, {
+            title: 'Group Notes By',
+            placeHolder: 'Choose how the Notes Explorer groups notes',
+        });
+
+        if (picked) {
+            await treeProvider.setGrouping(picked.mode);
+        }
+    });
+
+    context.subscriptions.push(goToNoteCommand, deleteNoteCommand, reanchorNoteCommand, groupByCommand);
 }
@@ -1,13 +1,38 @@
 import * as vscode from 'vscode';
 import {
     Note,
+    NoteReply,
+    NoteStatus,
     Priority,
     Category,
-    PRIORITY_CONFIG,
-    CATEGORY_CONFIG,
-    createNote
+    STATUS_CONFIG,
+    getPriorities,
+    getCategories,
+    getPriorityConfig,
+    getCategoryConfig,
+    createNote,
+    createReply,
+    formatNoteRange
 } from './utils';
 import { NoteStorage } from './noteStorage';
+import { WorkspaceManager } from './workspaceManager';
+import { createAnchor } from './noteAnchor';
+
+/**
+ * Header shown in place of the comment author: category, priority and (if closed) status
+ */
+function formatCommentHeader(note: Note): string {
+    const priorityConfig = getPriorityConfig(note.priority);
+    const categoryConfig = getCategoryConfig(note.category);
+    const header = `${categoryConfig.icon} ${categoryConfig.label} · ${priorityConfig.icon}`;
+
+    if (note.status === 'open') {
+        return header;
+    }
+
+    const statusConfig = STATUS_CONFIG[note.status];
+    return `${header} · ${statusConfig.icon} ${statusConfig.label}`;
+}
 
 /**
  * Custom comment class that implements vscode.Comment
@@ -31,13 +56,8 @@ class ReviewComment implements vscode.Comment {
         this.mode = vscode.CommentMode.Preview;
         this.contextValue = 'reviewNote';
 
-        const priorityConfig = PRIORITY_CONFIG[note.priority];
-        const categoryConfig = CATEGORY_CONFIG[note.category];
-
         // Show category label + priority icon only (no text)
-        this.author = {
-            name: `${categoryConfig.icon} ${categoryConfig.label} · ${priorityConfig.icon}`,
-        };
+        this.author = { name: formatCommentHeader(note) };
 
         this.label = note.author;
         this.timestamp = new Date(note.timestamp);
@@ -50,31 +70,61 @@ class ReviewComment implements vscode.Comment {
         this.body = new vscode.MarkdownString(this.note.text);
         (this.body as vscode.MarkdownString).isTrusted = true;
 
-        const priorityConfig = PRIORITY_CONFIG[this.note.priority];
-        const categoryConfig = CATEGORY_CONFIG[this.note.category];
-
-        this.author = {
-            name: `${categoryConfig.icon} ${categoryConfig.label} · ${priorityConfig.icon}`,
-        };
+        this.author = { name: formatCommentHeader(this.note) };
 
         this.label = this.note.author;
         this.timestamp = new Date(this.note.timestamp);
     }
 }
 
+/**
+ * Comment shown for a reply below the note in its thread
+ */
+class ReplyComment implements vscode.Comment {
+    public id: string;
+    public body: string | vscode.MarkdownString;
+    public mode: vscode.CommentMode;
+    public author: vscode.CommentAuthorInformation;
+    public contextValue?: string;
+    public timestamp?: Date;
+
+    constructor(
+        public note: Note,
+        public reply: NoteReply,
+        public parent?: vscode.CommentThread
+    ) {
+        this.id = reply.id;
+        this.body = new vscode.MarkdownString(reply.text);
+        (this.body as vscode.MarkdownString).isTrusted = true;
+        this.mode = vscode.CommentMode.Preview;
+        this.contextValue = 'reviewReply';
+        this.author = { name: reply.author };
+        this.timestamp = new Date(reply.timestamp);
+    }
+
+    /**
+     * Update the comment display
+     */
+    public refresh(): void {
+        this.body = new vscode.MarkdownString(this.reply.text);
+        (this.body as vscode.MarkdownString).isTrusted = true;
+        this.timestamp = new Date(this.reply.timestamp);
+    }
+}
+
 /**
  * Manages comment threads using VS Code's Comments API
  */
 export class ReviewNotesProvider {
     private commentController: vscode.CommentController;
     private threads: Map<string, vscode.CommentThread[]> = new Map();
-    private storage: NoteStorage;
+    private workspaceManager: WorkspaceManager;
 
     constructor(
-        storage: NoteStorage,
+        workspaceManager: WorkspaceManager,
         context: vscode.ExtensionContext
     ) {
-        this.storage = storage;
+        this.workspaceManager = workspaceManager;
 
         // Create comment controller
         this.commentController = vscode.comments.createCommentController(
@@ -85,6 +135,10 @@ export class ReviewNotesProvider {
         // Enable commenting on all lines
         this.commentController.commentingRangeProvider = {
             provideCommentingRanges: (document: vscode.TextDocument) => {
+                // Notes are stored per workspace folder
+                if (!this.getStorage(document.uri)) {
+                    return [];
+                }
                 const lineCount = document.lineCount;
                 return [new vscode.Range(0, 0, lineCount - 1, 0)];
             }
@@ -112,18 +166,38 @@ export class ReviewNotesProvider {
             }
         );
 
-        // Command to save an edited comment
+        // Command to reply to an existing note
+        const replyCommand = vscode.commands.registerCommand(
+            'reviewNotes.replyNote',
+            (reply: vscode.CommentReply) => {
+                this.handleReply(reply);
+            }
+        );
+
+        // Command to save an edited comment (note or reply)
         const saveCommand = vscode.commands.registerCommand(
             'reviewNotes.saveNote',
-            (comment: ReviewComment) => {
-                this.handleSaveNote(comment);
+            (comment: ReviewComment | ReplyComment) => {
+                if (comment instanceof ReplyComment) {
+                    this.handleSaveReply(comment);
+                } else {
+                    this.handleSaveNote(comment);
+                }
+            }
+        );
+
+        // Command to delete a single reply
+        const deleteReplyCommand = vscode.commands.registerCommand(
+            'reviewNotes.deleteReply',
+            (comment: ReplyComment) => {
+                this.handleDeleteReply(comment);
             }
         );
 
         // Command to cancel editing
         const cancelCommand = vscode.commands.registerCommand(
             'reviewNotes.cancelNote',
-            (comment: ReviewComment) => {
+            (comment: ReviewComment | ReplyComment) => {
                 if (comment.parent) {
                     comment.mode = vscode.CommentMode.Preview;
                     comment.parent.comments = comment.parent.comments.map(c => c);
@@ -150,7 +224,7 @@ export class ReviewNotesProvider {
         // Command to edit a comment
         const editCommand = vscode.commands.registerCommand(
             'reviewNotes.editNote',
-            (comment: ReviewComment) => {
+            (comment: ReviewComment | ReplyComment) => {
                 if (comment.parent) {
                     comment.mode = vscode.CommentMode.Editing;
                     comment.parent.comments = comment.parent.comments.map(c => c);
@@ -158,46 +232,31 @@ export class ReviewNotesProvider {
             }
         );
 
-        // Command to set priority
-        const setPriorityHighCommand = vscode.commands.registerCommand(
-            'reviewNotes.setPriorityHigh',
-            (thread: vscode.CommentThread) => this.handleSetPriority(thread, 'high')
+        // Commands to set priority and category, offering the configured ones
+        const setPriorityCommand = vscode.commands.registerCommand(
+            'reviewNotes.setPriority',
+            (thread: vscode.CommentThread) => this.handlePickPriority(thread)
         );
 
-        const setPriorityMediumCommand = vscode.commands.registerCommand(
-            'reviewNotes.setPriorityMedium',
-            (thread: vscode.CommentThread) => this.handleSetPriority(thread, 'medium')
+        const setCategoryCommand = vscode.commands.registerCommand(
+            'reviewNotes.setCategory',
+            (thread: vscode.CommentThread) => this.handlePickCategory(thread)
         );
 
-        const setPriorityLowCommand = vscode.commands.registerCommand(
-            'reviewNotes.setPriorityLow',
-            (thread: vscode.CommentThread) => this.handleSetPriority(thread, 'low')
+        // Commands to close or reopen a note
+        const resolveCommand = vscode.commands.registerCommand(
+            'reviewNotes.resolveNote',
+            (thread: vscode.CommentThread) => this.handleSetStatus(thread, 'resolved')
         );
 
-        // Command to set category
-        const setCategoryTodoCommand = vscode.commands.registerCommand(
-            'reviewNotes.setCategoryTodo',
-            (thread: vscode.CommentThread) => this.handleSetCategory(thread, 'todo')
+        const wontFixCommand = vscode.commands.registerCommand(
+            'reviewNotes.wontFixNote',
+            (thread: vscode.CommentThread) => this.handleSetStatus(thread, 'wontfix')
         );
 
-        const setCategoryBugCommand = vscode.commands.registerCommand(
-            'reviewNotes.setCategoryBug',
-            (thread: vscode.CommentThread) => this.handleSetCategory(thread, 'bug')
-        );
-
-        const setCategoryQuestionCommand = vscode.commands.registerCommand(
-            'reviewNotes.setCategoryQuestion',
-            (thread: vscode.CommentThread) => this.handleSetCategory(thread, 'question')
-        );
-
-        const setCategoryIdeaCommand = vscode.commands.registerCommand(
-            'reviewNotes.setCategoryIdea',
-            (thread: vscode.CommentThread) => this.handleSetCategory(thread, 'idea')
-        );
-
-        const setCategoryNoteCommand = vscode.commands.registerCommand(
-            'reviewNotes.setCategoryNote',
-            (thread: vscode.CommentThread) => this.handleSetCategory(thread, 'note')
+        const reopenCommand = vscode.commands.registerCommand(
+            'reviewNotes.reopenNote',
+            (thread: vscode.CommentThread) => this.handleSetStatus(thread, 'open')
         );
 
         // Command to edit properties (category + priority) via dialog
@@ -208,20 +267,19 @@ export class ReviewNotesProvider {
 
         context.subscriptions.push(
             createCommand,
+            replyCommand,
             saveCommand,
+            deleteReplyCommand,
             cancelCommand,
             discardCommand,
             deleteCommand,
             editCommand,
             editPropertiesCommand,
-            setPriorityHighCommand,
-            setPriorityMediumCommand,
-            setPriorityLowCommand,
-            setCategoryTodoCommand,
-            setCategoryBugCommand,
-            setCategoryQuestionCommand,
-            setCategoryIdeaCommand,
-            setCategoryNoteCommand,
+            setPriorityCommand,
+            setCategoryCommand,
+            resolveCommand,
+            wontFixCommand,
+            reopenCommand,
             this.commentController
         );
     }
@@ -233,7 +291,7 @@ export class ReviewNotesProvider {
         const noteId = (thread as any).__noteId;
         if (!noteId) return;
 
-        this.storage.updateNotePriority(noteId, priority);
+        this.getStorage(thread.uri)?.updateNotePriority(noteId, priority);
 
         const comment = thread.comments[0] as ReviewComment;
         if (comment) {
@@ -255,7 +313,7 @@ export class ReviewNotesProvider {
         const noteId = (thread as any).__noteId;
         if (!noteId) return;
 
-        this.storage.updateNoteCategory(noteId, category);
+        this.getStorage(thread.uri)?.updateNoteCategory(noteId, category);
 
         const comment = thread.comments[0] as ReviewComment;
         if (comment) {
@@ -271,57 +329,127 @@ export class ReviewNotesProvider {
     }
 
     /**
-     * Handle editing properties (category + priority) via two-step dialog
+     * Handle resolving, closing as won't fix, or reopening a note
      */
-    private async handleEditProperties(comment: ReviewComment): Promise<void> {
-        if (!comment.parent) return;
+    private handleSetStatus(thread: vscode.CommentThread, status: NoteStatus): void {
+        const noteId = (thread as any).__noteId;
+        if (!noteId) return;
 
-        const thread = comment.parent;
-        const currentCategory = comment.note.category;
-        const currentPriority = comment.note.priority;
+        this.getStorage(thread.uri)?.updateNoteStatus(noteId, status);
+
+        const comment = thread.comments[0] as ReviewComment;
+        if (comment) {
+            comment.note.status = status;
+            comment.refresh();
+
+            this.applyThreadStatus(thread, comment.note);
+
+            // Closed notes get out of the way, reopened ones are shown
+            thread.collapsibleState = status === 'open'
+                ? vscode.CommentThreadCollapsibleState.Expanded
+                : vscode.CommentThreadCollapsibleState.Collapsed;
+
+            // Force re-render by creating new array reference
+            thread.comments = thread.comments.map(c => c);
+        }
+    }
 
-        // Step 1: Pick Category
+    /**
+     * Reflect a note's status in the thread state and menus
+     */
+    private applyThreadStatus(thread: vscode.CommentThread, note: Note): void {
+        thread.state = note.status === 'open'
+            ? vscode.CommentThreadState.Unresolved
+            : vscode.CommentThreadState.Resolved;
+        thread.contextValue = note.status === 'open' ? 'reviewNoteThread' : 'reviewNoteThreadClosed';
+    }
+
+    /**
+     * Ask for one of the configured categories, marking the current one
+     */
+    private async pickCategory(currentCategory: Category, title: string): Promise<Category | undefined> {
         interface CategoryOption extends vscode.QuickPickItem {
             category: Category;
         }
 
-        const categoryOptions: CategoryOption[] = [
-            { label: '📋 TODO', description: currentCategory === 'todo' ? '$(check) Current' : '', category: 'todo', picked: currentCategory === 'todo' },
-            { label: '🐛 BUG', description: currentCategory === 'bug' ? '$(check) Current' : '', category: 'bug', picked: currentCategory === 'bug' },
-            { label: '❓ QUESTION', description: currentCategory === 'question' ? '$(check) Current' : '', category: 'question', picked: currentCategory === 'question' },
-            { label: '💡 IDEA', description: currentCategory === 'idea' ? '$(check) Current' : '', category: 'idea', picked: currentCategory === 'idea' },
-            { label: '📝 NOTE', description: currentCategory === 'note' ? '$(check) Current' : '', category: 'note', picked: currentCategory === 'note' },
-        ];
+        const categoryOptions: CategoryOption[] = getCategories().map(c => ({
+            label: `${c.icon} ${c.label}`,
+            description: currentCategory === c.id ? '$(check) Current' : '',
+            category: c.id,
+            picked: currentCategory === c.id,
+        }));
 
-        // Find the current category option to pass as default
-        const defaultCategory = categoryOptions.find(opt => opt.category === currentCategory);
+        // Describe the current category (may be unknown to this configuration)
+        const currentCategoryConfig = getCategoryConfig(currentCategory);
 
-        const pickedCategory = await vscode.window.showQuickPick(categoryOptions, {
-            placeHolder: `Current: ${defaultCategory?.label || 'Select category'}`,
-            title: 'Step 1/2: Category',
+        const picked = await vscode.window.showQuickPick(categoryOptions, {
+            placeHolder: `Current: ${currentCategoryConfig.icon} ${currentCategoryConfig.label}`,
+            title,
         });
+        return picked?.category;
+    }
 
-        if (!pickedCategory) return;
-
-        // Step 2: Pick Priority
+    /**
+     * Ask for one of the configured priorities, marking the current one
+     */
+    private async pickPriority(currentPriority: Priority, title: string): Promise<Priority | undefined> {
         interface PriorityOption extends vscode.QuickPickItem {
             priority: Priority;
         }
 
-        const priorityOptions: PriorityOption[] = [
-            { label: '🔴 High', description: currentPriority === 'high' ? '$(check) Current' : '', priority: 'high', picked: currentPriority === 'high' },
-            { label: '🟡 Medium', description: currentPriority === 'medium' ? '$(check) Current' : '', priority: 'medium', picked: currentPriority === 'medium' },
-            { label: '🟢 Low', description: currentPriority === 'low' ? '$(check) Current' : '', priority: 'low', picked: currentPriority === 'low' },
-        ];
+        const priorityOptions: PriorityOption[] = getPriorities().map(p => ({
+            label: `${p.icon} ${p.label}`,
+            description: currentPriority === p.id ? '$(check) Current' : '',
+            priority: p.id,
+            picked: currentPriority === p.id,
+        }));
 
-        // Find the current priority option
-        const defaultPriority = priorityOptions.find(opt => opt.priority === currentPriority);
+        // Describe the current priority (may be unknown to this configuration)
+        const currentPriorityConfig = getPriorityConfig(currentPriority);
 
-        const pickedPriority = await vscode.window.showQuickPick(priorityOptions, {
-            placeHolder: `Current: ${defaultPriority?.label || 'Select priority'}`,
-            title: 'Step 2/2: Priority',
+        const picked = await vscode.window.showQuickPick(priorityOptions, {
+            placeHolder: `Current: ${currentPriorityConfig.icon} ${currentPriorityConfig.label}`,
+            title,
         });
+        return picked?.priority;
+    }
 
+    /**
+     * Handle the Set Priority... thread menu
+     */
+    private async handlePickPriority(thread: vscode.CommentThread): Promise<void> {
+        const comment = thread.comments[0] as ReviewComment | undefined;
+        const priority = comment && await this.pickPriority(comment.note.priority, 'Priority');
+        if (priority) {
+            this.handleSetPriority(thread, priority);
+        }
+    }
+
+    /**
+     * Handle the Set Category... thread menu
+     */
+    private async handlePickCategory(thread: vscode.CommentThread): Promise<void> {
+        const comment = thread.comments[0] as ReviewComment | undefined;
+        const category = comment && await this.pickCategory(comment.note.category, 'Category');
+        if (category) {
+            this.handleSetCategory(thread, category);
+        }
+    }
+
+    /**
+     * Handle editing properties (category + priority) via two-step dialog
+     */
+    private async handleEditProperties(comment: ReviewComment): Promise<void> {
+        if (!comment.parent) return;
+
+        const thread = comment.parent;
+        const currentCategory = comment.note.category;
+        const currentPriority = comment.note.priority;
+
+        const pickedCategory = await this.pickCategory(currentCategory, 'Step 1/2: Category');
+        if (!pickedCategory) return;
+
+        const pickedPriority = await this.pickPriority(currentPriority, 'Step 2/2: Priority');
         if (!pickedPriority) return;
 
         // Update both category and priority
@@ -330,15 +458,15 @@ export class ReviewNotesProvider {
 
         let needsRefresh = false;
 
-        if (pickedCategory.category !== currentCategory) {
-            this.storage.updateNoteCategory(noteId, pickedCategory.category);
-            comment.note.category = pickedCategory.category;
+        if (pickedCategory !== currentCategory) {
+            this.getStorage(thread.uri)?.updateNoteCategory(noteId, pickedCategory);
+            comment.note.category = pickedCategory;
             needsRefresh = true;
         }
 
-        if (pickedPriority.priority !== currentPriority) {
-            this.storage.updateNotePriority(noteId, pickedPriority.priority);
-            comment.note.priority = pickedPriority.priority;
+        if (pickedPriority !== currentPriority) {
+            this.getStorage(thread.uri)?.updateNotePriority(noteId, pickedPriority);
+            comment.note.priority = pickedPriority;
             needsRefresh = true;
         }
 
@@ -365,8 +493,21 @@ export class ReviewNotesProvider {
             return;
         }
 
-        // Get line number from thread range
-        const line = thread.range?.start.line ?? 0;
+        // Submitting in a thread that already holds a note answers it instead
+        if ((thread as any).__noteId) {
+            this.handleReply(reply);
+            return;
+        }
+
+        const storage = this.getStorage(thread.uri);
+        if (!storage) {
+            vscode.window.showWarningMessage('Review Notes: Notes can only be added to files inside a workspace folder');
+            return;
+        }
+
+        // Get the noted range from the thread (a selection or a single line)
+        const range = thread.range ?? new vscode.Range(0, 0, 0, 0);
+        const line = range.start.line;
 
         // Use defaults: Note category, Low priority
         // Users can change via right-click context menu
@@ -374,14 +515,25 @@ export class ReviewNotesProvider {
         const category: Category = 'note';
 
         // Create the note
-        const note = createNote(line, text, priority, category);
+        const note = createNote({
+            line,
+            startCharacter: range.start.character,
+            endLine: range.end.line,
+            endCharacter: range.end.character,
+        }, text, priority, category);
+
+        const lines = this.getDocumentLines(thread.uri);
+        if (lines) {
+            note.anchor = createAnchor(lines, line);
+        }
 
         // Save to storage
-        this.storage.addNote(thread.uri, note);
+        storage.addNote(thread.uri, note);
 
         // Create the comment and add to thread
         const comment = new ReviewComment(note, thread);
         thread.comments = [comment];
+        this.applyThreadStatus(thread, note);
 
         // Mark thread as not collapsed so it stays visible
         thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
@@ -396,7 +548,7 @@ export class ReviewNotesProvider {
             this.threads.set(thread.uri.toString(), fileThreads);
         }
 
-        console.log(`Review Notes: Created ${category} note with ${priority} priority on line ${note.line + 1}`);
+        console.log(`Review Notes: Created ${category} note with ${priority} priority at ${formatNoteRange(note).toLowerCase()}`);
     }
 
     /**
@@ -414,7 +566,7 @@ export class ReviewNotesProvider {
             : comment.body.value;
 
         // Update storage
-        this.storage.updateNote(thread.uri, noteId, newText);
+        this.getStorage(thread.uri)?.updateNote(thread.uri, noteId, newText);
 
         // Update the note object
         comment.note.text = newText;
@@ -433,6 +585,75 @@ export class ReviewNotesProvider {
         console.log(`Review Notes: Updated note ${noteId}`);
     }
 
+    /**
+     * Handle adding a reply to the note of a thread
+     */
+    private handleReply(reply: vscode.CommentReply): void {
+        const thread = reply.thread;
+        const text = reply.text.trim();
+        const noteId = (thread as any).__noteId;
+
+        if (!text || !noteId) {
+            return;
+        }
+
+        const storage = this.getStorage(thread.uri);
+        const result = storage?.getNoteById(noteId);
+        if (!storage || !result) {
+            return;
+        }
+
+        const newReply = createReply(text);
+        storage.addReply(noteId, newReply);
+
+        thread.comments = [...thread.comments, new ReplyComment(result.note, newReply, thread)];
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+
+        console.log(`Review Notes: Added reply to note ${noteId}`);
+    }
+
+    /**
+     * Handle saving an edited reply
+     */
+    private handleSaveReply(comment: ReplyComment): void {
+        if (!comment.parent) {
+            return;
+        }
+
+        const thread = comment.parent;
+        const newText = typeof comment.body === 'string'
+            ? comment.body
+            : comment.body.value;
+
+        // Update storage
+        this.getStorage(thread.uri)?.updateReply(comment.note.id, comment.reply.id, newText);
+
+        // Update the reply object
+        comment.reply.text = newText;
+        comment.reply.timestamp = Date.now();
+
+        comment.refresh();
+        comment.mode = vscode.CommentMode.Preview;
+
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+
+        // Force re-render by creating new array reference
+        thread.comments = thread.comments.map(c => c);
+    }
+
+    /**
+     * Handle deleting a single reply, keeping the note
+     */
+    private handleDeleteReply(comment: ReplyComment): void {
+        this.workspaceManager.findNote(comment.note.id)?.storage.deleteReply(comment.note.id, comment.reply.id);
+
+        if (comment.parent) {
+            comment.parent.comments = comment.parent.comments.filter(c => c !== comment);
+        }
+
+        console.log(`Review Notes: Deleted reply ${comment.reply.id}`);
+    }
+
     /**
      * Handle deleting a note
      */
@@ -441,7 +662,7 @@ export class ReviewNotesProvider {
 
         if (noteId) {
             // Delete from storage
-            this.storage.deleteNote(thread.uri, noteId);
+            this.getStorage(thread.uri)?.deleteNote(thread.uri, noteId);
             console.log(`Review Notes: Deleted note ${noteId}`);
         }
 
@@ -465,8 +686,13 @@ export class ReviewNotesProvider {
         // Clear existing threads for this file
         this.clearThreadsForFile(uri);
 
+        const storage = this.getStorage(uri);
+        if (!storage) {
+            return;
+        }
+
         // Get notes from storage
-        const notes = this.storage.getNotesForFile(uri);
+        const notes = storage.getNotesForFile(uri);
 
         if (notes.length === 0) {
             return;
@@ -488,14 +714,16 @@ export class ReviewNotesProvider {
      * Create a comment thread from an existing note
      */
     private createThreadFromNote(uri: vscode.Uri, note: Note): vscode.CommentThread {
-        const range = new vscode.Range(note.line, 0, note.line, 0);
+        const range = new vscode.Range(note.line, note.startCharacter, note.endLine, note.endCharacter);
         const thread = this.commentController.createCommentThread(uri, range, []);
 
-        const comment = new ReviewComment(note, thread);
-        thread.comments = [comment];
-        thread.canReply = false; // Don't allow replies, just single notes
-        thread.contextValue = 'reviewNoteThread';
-        thread.label = 'Review Note';
+        thread.comments = [
+            new ReviewComment(note, thread),
+            ...note.replies.map(reply => new ReplyComment(note, reply, thread)),
+        ];
+        thread.canReply = true;
+        this.applyThreadStatus(thread, note);
+        thread.label = this.getThreadLabel(note);
         thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
 
         // Store note ID for deletion
@@ -505,11 +733,56 @@ export class ReviewNotesProvider {
     }
 
     /**
-     * Add note from context menu (alternative to + icon)
+     * Get the storage of the workspace folder containing a file
+     */
+    private getStorage(uri: vscode.Uri): NoteStorage | undefined {
+        return this.workspaceManager.getStorage(uri);
+    }
+
+    /**
+     * Get the lines of an open document, if any
+     */
+    private getDocumentLines(uri: vscode.Uri): string[] | undefined {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        return document?.getText().split(/\r?\n/);
+    }
+
+    /**
+     * Thread label, flagging notes whose code was not found
+     */
+    private getThreadLabel(note: Note): string {
+        return note.orphaned ? 'Review Note (orphaned: code not found)' : 'Review Note';
+    }
+
+    /**
+     * Move rendered threads of a file to the current ranges of their notes, and update orphaned labels
+     */
+    public syncThreadRanges(uri: vscode.Uri): void {
+        const fileThreads = this.threads.get(uri.toString());
+        const storage = this.getStorage(uri);
+        if (!fileThreads || !storage) return;
+
+        for (const thread of fileThreads) {
+            const noteId = (thread as any).__noteId;
+            const result = noteId ? storage.getNoteById(noteId) : undefined;
+            if (result) {
+                const { note } = result;
+                const range = new vscode.Range(note.line, note.startCharacter, note.endLine, note.endCharacter);
+                if (!thread.range?.isEqual(range)) {
+                    thread.range = range;
+                }
+                if (thread.label !== this.getThreadLabel(note)) {
+                    thread.label = this.getThreadLabel(note);
+                }
+            }
+        }
+    }
+
+    /**
+     * Add note from context menu (alternative to + icon) covering a line or selection
      */
-    public async addNoteAtLine(uri: vscode.Uri, line: number): Promise<void> {
-        // Create a new thread at the line
-        const range = new vscode.Range(line, 0, line, 0);
+    public async addNoteAtRange(uri: vscode.Uri, range: vscode.Range): Promise<void> {
+        // Create a new thread over the range
         const thread = this.commentController.createCommentThread(uri, range, []);
 
         thread.canReply = true;
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { Note } from './utils';
+
+/**
+ * Source lines around a note, read from the file when exporting
+ */
+export interface SourceExcerpt {
+    /** Language id used to fence and highlight the code, e.g. typescript */
+    language: string;
+    /** 1-based number of the first line in lines */
+    startLine: number;
+    lines: string[];
+    /** 1-based first and last line the note is on */
+    noteStartLine: number;
+    noteEndLine: number;
+    /** Abbreviated commit the file was read at, when it is in a git repository */
+    commit?: string;
+    /** Whether the file differs from that commit */
+    modified?: boolean;
+}
+
+/**
+ * Language ids by file extension, as used for Markdown code fences
+ */
+const LANGUAGE_IDS: Record<string, string> = {
+    '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'tsx',
+    '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'jsx',
+    '.py': 'python', '.rb': 'ruby', '.go': 'go', '.rs': 'rust', '.java': 'java',
+    '.kt': 'kotlin', '.kts': 'kotlin', '.scala': 'scala', '.swift': 'swift', '.dart': 'dart',
+    '.cs': 'csharp', '.fs': 'fsharp', '.c': 'c', '.h': 'c',
+    '.cpp': 'cpp', '.cc': 'cpp', '.cxx': 'cpp', '.hpp': 'cpp', '.hh': 'cpp',
+    '.m': 'objective-c', '.php': 'php', '.lua': 'lua', '.r': 'r', '.pl': 'perl',
+    '.sh': 'bash', '.bash': 'bash', '.zsh': 'bash', '.ps1': 'powershell',
+    '.sql': 'sql', '.html': 'html', '.htm': 'html', '.vue': 'vue', '.svelte': 'svelte',
+    '.css': 'css', '.scss': 'scss', '.less': 'less', '.xml': 'xml', '.svg': 'xml',
+    '.json': 'json', '.jsonc': 'jsonc', '.yml': 'yaml', '.yaml': 'yaml', '.toml': 'toml',
+    '.ini': 'ini', '.md': 'markdown', '.graphql': 'graphql', '.proto': 'protobuf',
+    '.tf': 'hcl', '.ex': 'elixir', '.exs': 'elixir', '.erl': 'erlang', '.hs': 'haskell',
+    '.clj': 'clojure', '.vb': 'vb', '.gradle': 'groovy', '.groovy': 'groovy',
+};
+
+/**
+ * Language id of a file, judging by its name
+ */
+export function getLanguageId(filePath: string): string {
+    const name = path.basename(filePath);
+    if (/^Dockerfile/i.test(name)) {
+        return 'dockerfile';
+    }
+    if (/^Makefile$/i.test(name)) {
+        return 'makefile';
+    }
+    return LANGUAGE_IDS[path.extname(name).toLowerCase()] ?? 'text';
+}
+
+/**
+ * Commit checked out in a git repository and the files changed since
+ */
+interface GitState {
+    commit: string;
+    changed: Set<string>;
+}
+
+function runGit(args: string[], cwd: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+        execFile('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 }, (error, stdout) => resolve(error ? undefined : stdout));
+    });
+}
+
+/**
+ * Commits and changed files of the repositories met while loading excerpts, by folder and by repository
+ */
+interface GitCache {
+    folders: Map<string, Promise<GitState | undefined>>;
+    repositories: Map<string, Promise<GitState>>;
+}
+
+/**
+ * Read the commit and changed files of the repository holding a folder
+ */
+function getGitState(folder: string, cache: GitCache): Promise<GitState | undefined> {
+    let state = cache.folders.get(folder);
+    if (!state) {
+        state = runGit(['rev-parse', '--show-toplevel', '--short', 'HEAD'], folder).then(output => {
+            const [topLevel, commit] = output?.trim().split(/\r?\n/) ?? [];
+            return topLevel && commit ? getRepositoryState(path.resolve(topLevel), commit, cache) : undefined;
+        });
+        cache.folders.set(folder, state);
+    }
+    return state;
+}
+
+function getRepositoryState(topLevel: string, commit: string, cache: GitCache): Promise<GitState> {
+    let state = cache.repositories.get(topLevel);
+    if (!state) {
+        state = runGit(['status', '--porcelain', '-z', '--untracked-files=all'], topLevel).then(status => {
+            const changed = new Set<string>();
+            // Entries are "XY path", renames and copies are followed by their original path
+            const entries = (status ?? '').split('\0');
+            for (let i = 0; i < entries.length; i++) {
+                if (entries[i].length > 3) {
+                    changed.add(path.resolve(topLevel, entries[i].slice(3)));
+                }
+                if (/^[RC]/.test(entries[i])) {
+                    i++;
+                }
+            }
+            return { commit, changed };
+        });
+        cache.repositories.set(topLevel, state);
+    }
+    return state;
+}
+
+/**
+ * Read the lines each note is on, with contextLines lines before and after.
+ * Notes on files that cannot be read, or beyond their end, get no excerpt.
+ */
+export async function loadSourceExcerpts(
+    allNotes: Map<string, Note[]>,
+    resolvePath: (filePath: string) => string,
+    contextLines: number
+): Promise<Map<Note, SourceExcerpt>> {
+    const excerpts = new Map<Note, SourceExcerpt>();
+    const gitCache: GitCache = { folders: new Map(), repositories: new Map() };
+    const context = Math.max(0, Math.floor(contextLines));
+
+    for (const [filePath, notes] of allNotes.entries()) {
+        const absolutePath = resolvePath(filePath);
+        let content: string;
+        try {
+            content = await fs.promises.readFile(absolutePath, 'utf-8');
+        } catch {
+            continue;
+        }
+        if (content.includes('\0')) {
+            continue;
+        }
+
+        const lines = content.split(/\r?\n/);
+        if (lines.length > 1 && lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+        const git = await getGitState(path.dirname(absolutePath), gitCache);
+        // git reports paths with symbolic links resolved
+        const modified = git ? git.changed.has(await fs.promises.realpath(absolutePath)) : undefined;
+        const language = getLanguageId(filePath);
+
+        for (const note of notes) {
+            if (note.line >= lines.length) {
+                continue;
+            }
+            // A whole-line range ends at the start of the line after it
+            const lastLine = Math.min(
+                note.endLine > note.line && note.endCharacter === 0 ? note.endLine - 1 : note.endLine,
+                lines.length - 1
+            );
+            const start = Math.max(0, note.line - context);
+            const end = Math.min(lines.length - 1, lastLine + context);
+
+            excerpts.set(note, {
+                language,
+                startLine: start + 1,
+                lines: lines.slice(start, end + 1),
+                noteStartLine: note.line + 1,
+                noteEndLine: lastLine + 1,
+                commit: git?.commit,
+                modified,
+            });
+        }
+    }
+
+    return excerpts;
+}
+
+/**
+ * Where an excerpt comes from, e.g. "lines 8-14 at commit a1b2c3d (with local changes)"
+ */
+export function describeExcerptSource(excerpt: SourceExcerpt): string {
+    const endLine = excerpt.startLine + excerpt.lines.length - 1;
+    const lines = endLine > excerpt.startLine ? `lines ${excerpt.startLine}-${endLine}` : `line ${excerpt.startLine}`;
+    if (!excerpt.commit) {
+        return `${lines}, not under git`;
+    }
+    return `${lines} at commit ${excerpt.commit}${excerpt.modified ? ' (with local changes)' : ''}`;
+}
@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Note } from './utils';
+import { NOTE_TYPES_KEY } from './notesFormat';
+
+export const NOTES_FILENAME = '.notes.json';
+export const NOTES_DIRNAME = '.notes';
+
+/**
+ * File in .notes/ holding team-defined categories and priorities.
+ * Notes of a source file at the root named $config (or $$config...) get one more $, so they cannot take its place.
+ */
+const NOTE_TYPES_FILENAME = '$config.json';
+const ESCAPED_SOURCE_PATTERN = /^\$+config$/;
+
+/**
+ * How notes are laid out on disk: one .notes.json, or one file per source file under .notes/
+ */
+export type StorageLayout = 'file' | 'directory';
+
+/**
+ * Reads and writes the notes of a workspace folder.
+ * Content is exchanged in the .notes.json format, whatever the layout on disk.
+ */
+export interface NotesBackend {
+    readonly layout: StorageLayout;
+
+    /** Name of the file or directory, for messages */
+    readonly displayName: string;
+
+    /** Whether the file or directory is on disk */
+    exists(): boolean;
+
+    /** Read the stored notes, or undefined if nothing is stored yet */
+    read(): Promise<string | undefined>;
+
+    /** Store notes; returns the content as read() will return it */
+    write(content: string): Promise<string>;
+
+    /** Glob, relative to the workspace folder, matching the files to watch for changes made elsewhere */
+    readonly watchPattern: string;
+
+    /** Files the last read() skipped, with the reason; write() leaves them as they are */
+    readonly unreadableFiles: ReadonlyMap<string, string>;
+}
+
+/**
+ * All notes in a single pretty-printed .notes.json
+ */
+class NotesFileBackend implements NotesBackend {
+    public readonly layout = 'file';
+    public readonly displayName = NOTES_FILENAME;
+    public readonly watchPattern = NOTES_FILENAME;
+    // A single file either loads or fails as a whole
+    public readonly unreadableFiles = new Map<string, string>();
+    private filePath: string;
+
+    constructor(workspaceRoot: string) {
+        this.filePath = path.join(workspaceRoot, NOTES_FILENAME);
+    }
+
+    public exists(): boolean {
+        return fs.existsSync(this.filePath);
+    }
+
+    public async read(): Promise<string | undefined> {
+        if (!this.exists()) {
+            return undefined;
+        }
+        return fs.promises.readFile(this.filePath, 'utf-8');
+    }
+
+    public async write(content: string): Promise<string> {
+        await fs.promises.writeFile(this.filePath, content, 'utf-8');
+        return content;
+    }
+}
+
+/**
+ * Sort object keys recursively, so files are written the same way on every machine
+ */
+function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (value && typeof value === 'object') {
+        const sorted: Record<string, unknown> = {};
+        for (const key of Object.keys(value).sort()) {
+            sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+        }
+        return sorted;
+    }
+    return value;
+}
+
+/**
+ * Notes as written to .notes/: keys sorted, notes of each file sorted by id,
+ * so notes added on different branches rarely touch the same lines
+ */
+function toStableJson(value: unknown): string {
+    return JSON.stringify(sortKeys(value), null, 2) + '\n';
+}
+
+function sortNotes(notes: Note[]): Note[] {
+    return [...notes].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * One JSON file of notes per source file under .notes/, mirroring the source tree:
+ * notes for ./src/app.ts live in .notes/src/app.ts.json
+ */
+class NotesDirectoryBackend implements NotesBackend {
+    public readonly layout = 'directory';
+    public readonly displayName = `${NOTES_DIRNAME}/`;
+    public readonly watchPattern = `${NOTES_DIRNAME}/**/*.json`;
+    public readonly unreadableFiles = new Map<string, string>();
+    private dirPath: string;
+
+    constructor(workspaceRoot: string) {
+        this.dirPath = path.join(workspaceRoot, NOTES_DIRNAME);
+    }
+
+    /**
+     * Path of the notes file for a source file path such as ./src/app.ts
+     */
+    private getNotesFile(filePath: string): string {
+        const relative = filePath.replace(/^\.\//, '').replace(ESCAPED_SOURCE_PATTERN, '$$$&');
+        return path.join(this.dirPath, `${relative}.json`);
+    }
+
+    /**
+     * Source file path such as ./src/app.ts for a notes file
+     */
+    private getSourcePath(notesFile: string): string {
+        const relative = path.relative(this.dirPath, notesFile).replace(/\\/g, '/').replace(/\.json$/, '')
+            .replace(ESCAPED_SOURCE_PATTERN, name => name.slice(1));
+        return relative.startsWith('.') ? relative : `./${relative}`;
+    }
+
+    /**
+     * Path of a notes file for messages, such as .notes/src/app.ts.json
+     */
+    private getDisplayPath(notesFile: string): string {
+        return path.relative(path.dirname(this.dirPath), notesFile).replace(/\\/g, '/');
+    }
+
+    /**
+     * List the .json files under a directory
+     */
+    private async listFiles(dir: string): Promise<string[]> {
+        const files: string[] = [];
+        for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                files.push(...await this.listFiles(entryPath));
+            } else if (entry.name.endsWith('.json')) {
+                files.push(entryPath);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Remove directories left empty under .notes/
+     */
+    private async removeEmptyDirs(dir: string): Promise<void> {
+        for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+            if (entry.isDirectory()) {
+                const entryPath = path.join(dir, entry.name);
+                await this.removeEmptyDirs(entryPath);
+                if ((await fs.promises.readdir(entryPath)).length === 0) {
+                    await fs.promises.rmdir(entryPath);
+                }
+            }
+        }
+    }
+
+    /**
+     * Stable .notes.json content: category/priority definitions first, then files by path
+     */
+    private toContent(noteTypes: unknown, files: Map<string, Note[]>): string {
+        const data: Record<string, unknown> = {};
+        if (noteTypes) {
+            data[NOTE_TYPES_KEY] = sortKeys(noteTypes);
+        }
+        for (const filePath of [...files.keys()].sort()) {
+            data[filePath] = sortKeys(sortNotes(files.get(filePath)!));
+        }
+        return JSON.stringify(data, null, 2);
+    }
+
+    public exists(): boolean {
+        return fs.existsSync(this.dirPath);
+    }
+
+    public async read(): Promise<string | undefined> {
+        if (!this.exists()) {
+            return undefined;
+        }
+
+        let noteTypes: unknown;
+        const files = new Map<string, Note[]>();
+        this.unreadableFiles.clear();
+        for (const file of await this.listFiles(this.dirPath)) {
+            // A file with merge conflict markers or broken JSON must not keep the others from loading
+            let data: unknown;
+            try {
+                data = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+            } catch (error) {
+                this.unreadableFiles.set(this.getDisplayPath(file), error instanceof Error ? error.message : String(error));
+                continue;
+            }
+
+            if (file === path.join(this.dirPath, NOTE_TYPES_FILENAME)) {
+                noteTypes = data;
+            } else if (Array.isArray(data) && data.length > 0) {
+                files.set(this.getSourcePath(file), data);
+            }
+        }
+
+        return this.toContent(noteTypes, files);
+    }
+
+    public async write(content: string): Promise<string> {
+        const { [NOTE_TYPES_KEY]: allNoteTypes, ...data } = JSON.parse(content) as Record<string, unknown>;
+        const isUnreadable = (file: string) => this.unreadableFiles.has(this.getDisplayPath(file));
+        const files = new Map(Object.entries(data as Record<string, Note[]>)
+            .filter(([filePath, notes]) => notes.length > 0 && !isUnreadable(this.getNotesFile(filePath))));
+
+        await fs.promises.mkdir(this.dirPath, { recursive: true });
+
+        const wanted = new Map<string, string>();
+        const noteTypes = isUnreadable(path.join(this.dirPath, NOTE_TYPES_FILENAME)) ? undefined : allNoteTypes;
+        if (noteTypes) {
+            wanted.set(path.join(this.dirPath, NOTE_TYPES_FILENAME), toStableJson(noteTypes));
+        }
+        for (const [filePath, notes] of files.entries()) {
+            wanted.set(this.getNotesFile(filePath), toStableJson(sortNotes(notes)));
+        }
+
+        // Only touch files whose notes changed, and drop files whose notes are gone
+        for (const [file, fileContent] of wanted.entries()) {
+            const existing = fs.existsSync(file) ? await fs.promises.readFile(file, 'utf-8') : undefined;
+            if (existing !== fileContent) {
+                await fs.promises.mkdir(path.dirname(file), { recursive: true });
+                await fs.promises.writeFile(file, fileContent, 'utf-8');
+            }
+        }
+        for (const file of await this.listFiles(this.dirPath)) {
+            if (!wanted.has(file) && !isUnreadable(file)) {
+                await fs.promises.unlink(file);
+            }
+        }
+        await this.removeEmptyDirs(this.dirPath);
+
+        return this.toContent(noteTypes, files);
+    }
+}
+
+/**
+ * Create the backend for a workspace folder: .notes/ when that directory exists, otherwise .notes.json
+ */
+export function createNotesBackend(workspaceRoot: string, layout?: StorageLayout): NotesBackend {
+    const useDirectory = layout
+        ? layout === 'directory'
+        : fs.existsSync(path.join(workspaceRoot, NOTES_DIRNAME));
+
+    return useDirectory ? new NotesDirectoryBackend(workspaceRoot) : new NotesFileBackend(workspaceRoot);
+}
+
+/**
+ * Remove the single notes file after migrating to .notes/
+ */
+export async function removeNotesFile(workspaceRoot: string): Promise<void> {
+    const filePath = path.join(workspaceRoot, NOTES_FILENAME);
+    if (fs.existsSync(filePath)) {
+        await fs.promises.unlink(filePath);
+    }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { NOTES_FILENAME, NOTES_DIRNAME } from './storageBackend';
+import { WorkspaceManager, getWorkspaceFolderName } from './workspaceManager';
+
+/**
+ * Move the notes of workspace folders from .notes.json to one file per source file under .notes/
+ */
+async function migrateStorage(workspaceManager: WorkspaceManager): Promise<void> {
+    let storages = workspaceManager.getStorages().filter(storage => storage.getStorageLayout() === 'file');
+    if (storages.length === 0) {
+        vscode.window.showInformationMessage(`Review Notes: Notes are already stored in ${NOTES_DIRNAME}/`);
+        return;
+    }
+
+    if (storages.length > 1) {
+        const picked = await vscode.window.showQuickPick(
+            storages.map(storage => ({ label: getWorkspaceFolderName(storage.getWorkspaceRoot()), storage, picked: true })),
+            { title: `Migrate to ${NOTES_DIRNAME}/`, placeHolder: 'Select the workspace folders to migrate', canPickMany: true }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        storages = picked.map(p => p.storage);
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Move review notes to one file per source file under ${NOTES_DIRNAME}/?`,
+        { modal: true, detail: `${NOTES_FILENAME} will be deleted. Commit the new ${NOTES_DIRNAME}/ directory so your team switches too.` },
+        'Migrate'
+    );
+    if (answer !== 'Migrate') {
+        return;
+    }
+
+    for (const storage of storages) {
+        await storage.migrateToDirectory();
+    }
+
+    vscode.window.showInformationMessage(`Review Notes: Notes moved to ${NOTES_DIRNAME}/`);
+}
+
+/**
+ * Register the storage migration command
+ */
+export function registerStorageCommands(context: vscode.ExtensionContext, workspaceManager: WorkspaceManager): void {
+    const migrateCommand = vscode.commands.registerCommand(
+        'reviewNotes.migrateStorage',
+        () => migrateStorage(workspaceManager)
+    );
+
+    context.subscriptions.push(migrateCommand);
+}
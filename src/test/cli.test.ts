@@ -0,0 +1,124 @@
+// No vscode stand-in here: the CLI and everything it imports must run in plain Node
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { runCli } from '../cli';
+import { migrateNote } from '../utils';
+import { createTempWorkspace, removeTempWorkspace, writeFile } from './helpers';
+
+function note(id: string, line: number, text: string, fields: object = {}) {
+    return migrateNote({ id, line, text, timestamp: 1700000000000, author: 'ana', ...fields });
+}
+
+/**
+ * Run the CLI against a workspace folder, capturing its output
+ */
+async function run(workspaceRoot: string, ...args: string[]): Promise<{ code: number; out: string; err: string }> {
+    let out = '';
+    let err = '';
+    const code = await runCli([...args, '--root', workspaceRoot], {
+        out: text => { out += text; },
+        err: text => { err += text; },
+    });
+    return { code, out, err };
+}
+
+describe('review-notes CLI', () => {
+    let workspaceRoot: string;
+
+    before(() => {
+        workspaceRoot = createTempWorkspace();
+        writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify({
+            $config: { categories: [{ id: 'security', icon: '🔒', label: 'SECURITY' }] },
+            './src/app.ts': [
+                note('n1', 9, 'Crash on empty input\nSee the stack trace', { category: 'bug', priority: 'high' }),
+                note('n2', 2, 'Rename this', { category: 'todo', priority: 'low' }),
+            ],
+            './src/auth/login.ts': [note('n3', 0, 'Token is logged', { category: 'security', priority: 'high' })],
+            './README.md': [note('n4', 0, 'Old bug', { category: 'bug', priority: 'high', status: 'resolved' })],
+        }));
+    });
+
+    after(() => removeTempWorkspace(workspaceRoot));
+
+    it('lists notes sorted by file and line, with the first line of their text', async () => {
+        const { code, out } = await run(workspaceRoot, 'list');
+
+        assert.strictEqual(code, 0);
+        assert.deepStrictEqual(out.trimEnd().split('\n').map(line => line.split(/\s{2,}/)), [
+            ['./README.md:1', 'BUG', 'High', 'Resolved', 'ana', 'Old bug'],
+            ['./src/app.ts:3', 'TODO', 'Low', 'Open', 'ana', 'Rename this'],
+            ['./src/app.ts:10', 'BUG', 'High', 'Open', 'ana', 'Crash on empty input'],
+            ['./src/auth/login.ts:1', 'SECURITY', 'High', 'Open', 'ana', 'Token is logged'],
+        ]);
+    });
+
+    it('filters by category, priority, status and file', async () => {
+        const ids = async (...args: string[]) => {
+            const { out } = await run(workspaceRoot, 'export', '--format', 'json', ...args);
+            return JSON.parse(out).notes.map((n: { id: string }) => n.id);
+        };
+
+        assert.deepStrictEqual(await ids('--category', 'bug,security'), ['n4', 'n1', 'n3']);
+        assert.deepStrictEqual(await ids('--priority', 'high', '--status', 'open'), ['n1', 'n3']);
+        assert.deepStrictEqual(await ids('--file', 'src/auth'), ['n3']);
+        assert.deepStrictEqual(await ids('--file', path.join(workspaceRoot, 'src', 'app.ts')), ['n2', 'n1']);
+    });
+
+    it('exports to a file', async () => {
+        const output = path.join(workspaceRoot, 'report.csv');
+        const { code } = await run(workspaceRoot, 'export', '--format=csv', '--output', output);
+
+        assert.strictEqual(code, 0);
+        assert.ok(fs.readFileSync(output, 'utf-8').startsWith('file,line,category,priority,author,timestamp,status,text\r\n'));
+    });
+
+    it('exports with a template', async () => {
+        const template = path.join(workspaceRoot, 'audit.md.hbs');
+        writeFile(template, '{{#each notes}}{{file}}:{{line}} {{category}} {{text}}\n{{/each}}');
+
+        const { code, out } = await run(workspaceRoot, 'export', '--template', template, '--file', 'src/app.ts');
+
+        assert.strictEqual(code, 0);
+        assert.strictEqual(out, './src/app.ts:3 TODO Rename this\n./src/app.ts:10 BUG Crash on empty input\nSee the stack trace\n');
+    });
+
+    it('exports source excerpts', async () => {
+        writeFile(path.join(workspaceRoot, 'src', 'auth', 'login.ts'), 'log(token);\nreturn token;\n');
+
+        const { code, out } = await run(workspaceRoot, 'export', '--format', 'md', '--file', 'src/auth', '--excerpts', '1');
+
+        assert.strictEqual(code, 0);
+        assert.match(out, /`\.\/src\/auth\/login\.ts` lines 1-2, not under git:\n\n```typescript\nlog\(token\);\nreturn token;\n```\n/);
+        assert.strictEqual((await run(workspaceRoot, 'export', '--format', 'md', '--excerpts', 'all')).code, 2);
+    });
+
+    it('counts notes', async () => {
+        const { out } = await run(workspaceRoot, 'stats');
+
+        assert.ok(out.startsWith("4 notes in 3 files (3 open, 1 resolved, 0 won't fix)\n"));
+        assert.match(out, /🔒 SECURITY +1\n/);
+        assert.match(out, /\.\/src\/app\.ts +2\n/);
+    });
+
+    it('fails the check while open high-priority bugs remain', async () => {
+        const failed = await run(workspaceRoot, 'check');
+        assert.strictEqual(failed.code, 1);
+        assert.match(failed.err, /^1 note matching BUG · High · Open:\n\.\/src\/app\.ts:10 /);
+
+        const passed = await run(workspaceRoot, 'check', '--file', 'src/auth');
+        assert.strictEqual(passed.code, 0);
+
+        assert.strictEqual((await run(workspaceRoot, 'check', '--category', 'security')).code, 1);
+    });
+
+    it('reports invalid arguments with the usage', async () => {
+        const { code, err } = await run(workspaceRoot, 'export', '--format', 'pdf');
+
+        assert.strictEqual(code, 2);
+        assert.match(err, /--format must be one of md, html, json, csv, sarif, or give a --template/);
+        assert.match(err, /Usage: review-notes/);
+        assert.strictEqual((await run(workspaceRoot, 'publish')).code, 2);
+    });
+});
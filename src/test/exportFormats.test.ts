@@ -0,0 +1,219 @@
+import './mockVscode';
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import { renderMarkdown, renderHtml, renderJson, renderCsv, renderSarif, highlightCode } from '../exportFormats';
+import { parseMarkdownExport } from '../importProvider';
+import { SourceExcerpt } from '../sourceExcerpts';
+import { Note, migrateNote, configureNoteTypes } from '../utils';
+import { assertSnapshot } from './helpers';
+
+const notes = new Map<string, Note[]>([
+    ['./src/app.ts', [
+        migrateNote({
+            id: 'n2', line: 11, endLine: 14, text: 'Split this function', timestamp: 1700000100000,
+            author: 'ana', priority: 'low', category: 'idea',
+        }),
+        migrateNote({
+            id: 'n1', line: 2, startCharacter: 4, endLine: 2, endCharacter: 18, text: 'Null check missing <b>',
+            timestamp: 1700000000000, author: 'bo', priority: 'high', category: 'bug',
+            replies: [{ id: 'r1', text: 'Fixed in next commit', author: 'ana', timestamp: 1700000200000 }],
+        }),
+    ]],
+    ['./README.md', [
+        migrateNote({
+            id: 'n3', line: 0, text: 'Typo in title', timestamp: 1700000300000,
+            author: 'cy', priority: 'medium', category: 'todo', status: 'resolved',
+        }),
+    ]],
+]);
+
+const generated = new Date(1700000400000);
+
+/**
+ * Excerpt of the bug note, whose code looks like Markdown headings, author lines and fences
+ */
+function bugExcerpt(): Map<Note, SourceExcerpt> {
+    const bug = notes.get('./src/app.ts')!.find(note => note.id === 'n1')!;
+    return new Map([[bug, {
+        language: 'typescript',
+        startLine: 2,
+        lines: ['// #### Line 1 - 🐛 BUG 🔴', 'const user = find(id); // ```', '> *no author here*'],
+        noteStartLine: 3,
+        noteEndLine: 3,
+        commit: 'a1b2c3d',
+        modified: true,
+    }]]);
+}
+
+/**
+ * Replace locale-dependent dates, so snapshots do not depend on where tests run
+ */
+function normalizeDates(output: string): string {
+    const timestamps = [generated.getTime(), 1700000000000, 1700000100000, 1700000200000, 1700000300000];
+    return timestamps.reduce(
+        (text, timestamp) => text.split(new Date(timestamp).toLocaleString()).join(`<${new Date(timestamp).toISOString()}>`),
+        output
+    );
+}
+
+describe('Markdown export', () => {
+    it('renders a summary and the notes of each file sorted by path and line', () => {
+        assertSnapshot('export.md', normalizeDates(renderMarkdown(notes, generated)));
+    });
+
+    it('can be imported back', () => {
+        const imported = parseMarkdownExport(renderMarkdown(notes, generated));
+
+        assert.deepStrictEqual([...imported.keys()], ['./README.md', './src/app.ts']);
+        const [bug, idea] = imported.get('./src/app.ts')!;
+        assert.strictEqual(bug.text, 'Null check missing <b>');
+        assert.strictEqual(bug.category, 'bug');
+        assert.strictEqual(bug.priority, 'high');
+        assert.deepStrictEqual(bug.replies.map(r => [r.author, r.text]), [['ana', 'Fixed in next commit']]);
+        assert.deepStrictEqual([idea.line, idea.endLine], [11, 14]);
+        assert.strictEqual(imported.get('./README.md')![0].status, 'resolved');
+    });
+
+    it('shows source excerpts fenced with their language and labelled with their commit', () => {
+        const markdown = renderMarkdown(notes, generated, bugExcerpt());
+
+        assert.ok(markdown.includes([
+            '`./src/app.ts` lines 2-4 at commit a1b2c3d (with local changes):',
+            '',
+            '````typescript',
+            '// #### Line 1 - 🐛 BUG 🔴',
+            'const user = find(id); // ```',
+            '> *no author here*',
+            '````',
+            '',
+            '##### Reply - ana',
+        ].join('\n')));
+    });
+
+    it('leaves source excerpts out when imported back', () => {
+        const imported = parseMarkdownExport(renderMarkdown(notes, generated, bugExcerpt()));
+
+        const [bug, idea] = imported.get('./src/app.ts')!;
+        assert.strictEqual(bug.text, 'Null check missing <b>');
+        assert.strictEqual(bug.author, 'bo');
+        assert.deepStrictEqual(bug.replies.map(r => r.text), ['Fixed in next commit']);
+        assert.strictEqual(idea.text, 'Split this function');
+    });
+});
+
+describe('HTML export', () => {
+    it('renders notes with escaped text', () => {
+        const html = normalizeDates(renderHtml(notes, generated));
+
+        assert.ok(html.includes('<div class="note-text">Null check missing &lt;b&gt;</div>'));
+        assertSnapshot('export.html', html);
+    });
+
+    it('escapes icons, paths and authors from settings or the notes file', () => {
+        configureNoteTypes([{ categories: [{ id: 'xss', icon: '<img src=x onerror=alert(1)>', label: 'XSS' }] }]);
+        try {
+            const html = renderHtml(new Map([['./<b>.ts', [
+                migrateNote({ id: 'x', line: 0, text: 'x', timestamp: 1700000000000, author: '<i>eve</i>', category: 'xss' }),
+            ]]]), generated);
+
+            assert.ok(!html.includes('<img') && !html.includes('<i>') && !html.includes('<b>'));
+            assert.ok(html.includes('<span class="category">&lt;img src=x onerror=alert(1)&gt;</span>'));
+            assert.ok(html.includes('<div class="file-header">📁 ./&lt;b&gt;.ts</div>'));
+            assert.ok(html.includes('<div class="note-footer">&lt;i&gt;eve&lt;/i&gt; • '));
+        } finally {
+            configureNoteTypes([]);
+        }
+    });
+
+    it('shows source excerpts with line numbers and the noted lines highlighted', () => {
+        const html = renderHtml(notes, generated, bugExcerpt());
+
+        assert.ok(html.includes('<div class="excerpt-source">./src/app.ts · lines 2-4 at commit a1b2c3d (with local changes)</div>'));
+        assert.ok(html.includes('<span class="code-line"><span class="line-number">2</span><span class="tok-comment">'));
+        assert.ok(html.includes('<span class="code-line noted"><span class="line-number">3</span><span class="tok-keyword">const</span> user'));
+        assert.ok(html.includes('<span class="line-number">4</span>&gt; *no author here*</span>'));
+    });
+
+    it('highlights comments, strings, numbers and keywords', () => {
+        assert.strictEqual(
+            highlightCode('return "a<b" + 42; // done', 'typescript'),
+            '<span class="tok-keyword">return</span> <span class="tok-string">&quot;a&lt;b&quot;</span> + '
+                + '<span class="tok-number">42</span>; <span class="tok-comment">// done</span>'
+        );
+        assert.strictEqual(
+            highlightCode("if x == '#': pass  # skip", 'python'),
+            '<span class="tok-keyword">if</span> x == <span class="tok-string">&#39;#&#39;</span>: '
+                + '<span class="tok-keyword">pass</span>  <span class="tok-comment"># skip</span>'
+        );
+    });
+});
+
+describe('JSON export', () => {
+    it('lists notes with relative and absolute paths, 1-based positions and ISO dates', () => {
+        const data = JSON.parse(renderJson(notes, filePath => `/repo/${filePath.slice(2)}`, generated));
+
+        assert.strictEqual(data.generated, '2023-11-14T22:20:00.000Z');
+        assert.deepStrictEqual(data.notes.map((n: { id: string }) => n.id), ['n3', 'n1', 'n2']);
+        const { file, absolutePath, line, column, endLine, endColumn, timestamp, replies } = data.notes[1];
+        assert.deepStrictEqual(
+            [file, absolutePath, line, column, endLine, endColumn, timestamp],
+            ['./src/app.ts', '/repo/src/app.ts', 3, 5, 3, 19, '2023-11-14T22:13:20.000Z']
+        );
+        assert.strictEqual(replies[0].timestamp, '2023-11-14T22:16:40.000Z');
+    });
+});
+
+describe('CSV export', () => {
+    it('quotes fields holding commas, quotes and line breaks', () => {
+        const tricky = new Map([['./a, b.ts', [migrateNote({
+            id: 'n1', line: 0, text: 'Say "hi",\nthen leave', timestamp: 1700000000000, author: 'ana',
+        })]]]);
+
+        assert.strictEqual(renderCsv(tricky), [
+            'file,line,category,priority,author,timestamp,status,text',
+            '"./a, b.ts",1,note,medium,ana,2023-11-14T22:13:20.000Z,open,"Say ""hi"",\nthen leave"',
+            '',
+        ].join('\r\n'));
+    });
+
+    it('has one row per note, files sorted by path and notes by line', () => {
+        const rows = renderCsv(notes).split('\r\n');
+        assert.deepStrictEqual(rows.slice(1, 4).map(row => row.split(',').slice(0, 3)), [
+            ['./README.md', '1', 'todo'],
+            ['./src/app.ts', '3', 'bug'],
+            ['./src/app.ts', '12', 'idea'],
+        ]);
+    });
+});
+
+describe('SARIF export', () => {
+    const log = JSON.parse(renderSarif(notes, { sourceRoot: '/repo' }));
+    const run = log.runs[0];
+
+    it('writes a SARIF 2.1.0 log with a rule per category', () => {
+        assert.strictEqual(log.version, '2.1.0');
+        assert.strictEqual(run.tool.driver.name, 'Review Notes');
+        assert.deepStrictEqual(run.tool.driver.rules.map((r: { id: string }) => r.id), ['todo', 'bug', 'question', 'idea', 'note']);
+        assert.strictEqual(run.originalUriBaseIds['%SRCROOT%'].uri, 'file:///repo/');
+    });
+
+    it('reports each note as a result located by its range, with a level from its priority', () => {
+        const [readme, bug, idea] = run.results;
+
+        assert.deepStrictEqual([bug.ruleId, bug.ruleIndex, bug.level], ['bug', 1, 'error']);
+        assert.deepStrictEqual(bug.locations[0].physicalLocation, {
+            artifactLocation: { uri: 'src/app.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 3, startColumn: 5, endColumn: 19 },
+        });
+        assert.deepStrictEqual(idea.locations[0].physicalLocation.region, { startLine: 12, endLine: 14 });
+        assert.deepStrictEqual(readme.locations[0].physicalLocation.region, { startLine: 1 });
+        assert.deepStrictEqual(bug.partialFingerprints, { 'reviewNoteId/v1': 'n1' });
+    });
+
+    it('marks closed notes as suppressed', () => {
+        const [readme, bug] = run.results;
+
+        assert.deepStrictEqual(readme.suppressions, [{ kind: 'external', status: 'accepted', justification: 'Resolved' }]);
+        assert.strictEqual(bug.suppressions, undefined);
+    });
+});
@@ -0,0 +1,84 @@
+import './mockVscode';
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import { renderTemplate, buildTemplateContext, getTemplateOutputExtension, isHtmlTemplate, TemplateError } from '../exportTemplate';
+import { Note, migrateNote } from '../utils';
+
+describe('renderTemplate', () => {
+    const context = {
+        title: 'Audit <Q3>',
+        files: [
+            { path: './a.ts', notes: [{ text: 'First', replies: [] }, { text: 'Second', replies: [{ author: 'bo' }] }] },
+            { path: './b.ts', notes: [] },
+        ],
+    };
+
+    it('fills in values, escaping them for HTML unless written with triple braces', () => {
+        assert.strictEqual(renderTemplate('{{title}} / {{{title}}} / {{missing}}.', context, true), 'Audit &lt;Q3&gt; / Audit <Q3> / .');
+        assert.strictEqual(renderTemplate('{{title}}', context, false), 'Audit <Q3>');
+    });
+
+    it('repeats each blocks and looks fields up in enclosing objects', () => {
+        const template = '{{#each files}}{{#each notes}}{{@index}}:{{text}} in {{path}} for {{title}};{{/each}}{{/each}}';
+
+        assert.strictEqual(renderTemplate(template, context, false), '0:First in ./a.ts for Audit <Q3>;1:Second in ./a.ts for Audit <Q3>;');
+    });
+
+    it('renders if, else and unless blocks, treating empty lists as false', () => {
+        const template = '{{#each files}}{{path}}: {{#if notes}}{{notes.length}} notes{{else}}none{{/if}}{{#unless notes}}!{{/unless}}\n{{/each}}';
+
+        assert.strictEqual(renderTemplate(template, context, false), './a.ts: 2 notes\n./b.ts: none!\n');
+    });
+
+    it('leaves no blank lines for block tags and comments on their own lines', () => {
+        const template = [
+            '# Notes',
+            '{{! one line per file }}',
+            '{{#each files}}',
+            '- {{path}}',
+            '  {{/each}}',
+            'End',
+        ].join('\n');
+
+        assert.strictEqual(renderTemplate(template, context, false), '# Notes\n- ./a.ts\n- ./b.ts\nEnd');
+    });
+
+    it('reports unbalanced blocks with their line', () => {
+        assert.throws(() => renderTemplate('x\n{{#each files}}\n', context, false), new TemplateError('Line 2: {{#each}} is never closed'));
+        assert.throws(() => renderTemplate('{{#if a}}{{/each}}', context, false), /Line 1: \{\{\/each\}\} does not close \{\{#if\}\}/);
+        assert.throws(() => renderTemplate('{{#with a}}{{/with}}', context, false), /unknown block \{\{#with\}\}/);
+    });
+});
+
+describe('template context', () => {
+    it('lists files by path and their notes by line, with readable and ISO dates', () => {
+        const notes = new Map<string, Note[]>([
+            ['./src/b.ts', [
+                migrateNote({ id: 'n2', line: 7, text: 'Later', timestamp: 1700000000000, author: 'ana', category: 'bug', priority: 'high' }),
+                migrateNote({ id: 'n1', line: 1, text: 'Earlier', timestamp: 1700000000000, author: 'ana', status: 'resolved' }),
+            ]],
+            ['./a.ts', [migrateNote({ id: 'n3', line: 0, text: 'Top', timestamp: 1700000000000, author: 'bo' })]],
+        ]);
+        const template = '{{scope}} ({{total}})\n{{#each files}}{{path}}\n{{#each notes}}  {{range}} {{categoryIcon}} {{category}}/{{priority}} {{status}} {{isoDate}} {{text}}\n{{/each}}{{/each}}';
+
+        const context = buildTemplateContext(notes, { resolvePath: filePath => `/repo/${filePath.slice(2)}`, scope: 'Workspace' });
+
+        assert.strictEqual(renderTemplate(template, context, false), [
+            'Workspace (3)',
+            './a.ts',
+            '  Line 1 📝 NOTE/Medium Open 2023-11-14T22:13:20.000Z Top',
+            './src/b.ts',
+            '  Line 2 📝 NOTE/Medium Resolved 2023-11-14T22:13:20.000Z Earlier',
+            '  Line 8 🐛 BUG/High Open 2023-11-14T22:13:20.000Z Later',
+            '',
+        ].join('\n'));
+        assert.strictEqual(renderTemplate('{{#each notes}}{{absolutePath}} {{/each}}', context, false), '/repo/a.ts /repo/src/b.ts /repo/src/b.ts ');
+    });
+
+    it('names the output after the template', () => {
+        assert.strictEqual(getTemplateOutputExtension('/t/audit.md.hbs'), '.md');
+        assert.strictEqual(getTemplateOutputExtension('/t/audit.html'), '.html');
+        assert.strictEqual(getTemplateOutputExtension('/t/audit'), '.txt');
+        assert.ok(isHtmlTemplate('/t/report.htm.handlebars'));
+    });
+});
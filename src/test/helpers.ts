@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Snapshots live next to the test sources, not in the compiled output
+ */
+const SNAPSHOT_DIR = path.join(__dirname, '..', '..', 'src', 'test', 'snapshots');
+
+/**
+ * Compare text with a stored snapshot. Missing snapshots are written, except on CI
+ * where they fail the test; set UPDATE_SNAPSHOTS=1 to rewrite them after an intended change.
+ */
+export function assertSnapshot(name: string, actual: string): void {
+    const snapshotPath = path.join(SNAPSHOT_DIR, name);
+    const exists = fs.existsSync(snapshotPath);
+
+    if (!exists && process.env.CI && !process.env.UPDATE_SNAPSHOTS) {
+        assert.fail(`Snapshot ${name} is missing; run the tests locally to write it and commit it`);
+    }
+
+    if (process.env.UPDATE_SNAPSHOTS || !exists) {
+        fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+        fs.writeFileSync(snapshotPath, actual, 'utf-8');
+        return;
+    }
+
+    assert.strictEqual(actual, fs.readFileSync(snapshotPath, 'utf-8'), `Output differs from snapshot ${name}`);
+}
+
+/**
+ * Create an empty workspace folder in the system temp directory
+ */
+export function createTempWorkspace(name: string = 'workspace'): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'review-notes-'));
+    const workspaceRoot = path.join(root, name);
+    fs.mkdirSync(workspaceRoot);
+    return workspaceRoot;
+}
+
+/**
+ * Remove a workspace folder created by createTempWorkspace
+ */
+export function removeTempWorkspace(workspaceRoot: string): void {
+    fs.rmSync(path.dirname(workspaceRoot), { recursive: true, force: true });
+}
+
+/**
+ * Write a file, creating its folders
+ */
+export function writeFile(filePath: string, content: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf-8');
+}
+
+/**
+ * Wait for debounced saves to reach the disk
+ */
+export function waitForSave(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 700));
+}
+
+/**
+ * In-memory stand-in for vscode.Memento
+ */
+export function createMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get<T>(key: string, defaultValue?: T): T | undefined {
+            return values.has(key) ? values.get(key) as T : defaultValue;
+        },
+        async update(key: string, value: unknown): Promise<void> {
+            values.set(key, value);
+        },
+    };
+}
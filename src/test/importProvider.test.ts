@@ -0,0 +1,136 @@
+import { setWorkspaceFolders, dialogAnswers, shownMessages, workspace, Uri } from './mockVscode';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { importNotes, parseNotesFile } from '../importProvider';
+import { ReviewNotesProvider } from '../reviewNotesProvider';
+import { WorkspaceManager } from '../workspaceManager';
+import { Note, migrateNote } from '../utils';
+import { createTempWorkspace, removeTempWorkspace, writeFile, waitForSave } from './helpers';
+
+function note(id: string, line: number, text: string): Note {
+    return migrateNote({ id, line, text, timestamp: 1000, author: 'ana' });
+}
+
+/**
+ * Ids of the notes saved in a workspace folder, by file
+ */
+function savedNoteIds(workspaceRoot: string): Record<string, string[]> {
+    const data = JSON.parse(fs.readFileSync(path.join(workspaceRoot, '.notes.json'), 'utf-8')) as Record<string, Note[]>;
+    return Object.fromEntries(Object.entries(data).map(([filePath, notes]) => [filePath, notes.map(n => n.id).sort()]));
+}
+
+describe('parseNotesFile', () => {
+    it('reads the notes of another checkout without its note types', () => {
+        const imported = parseNotesFile(JSON.stringify({
+            $config: { categories: [{ id: 'security', icon: '🔒' }] },
+            './src/app.ts': [{ id: 'n1', line: 3, text: 'Old note', timestamp: 1000 }],
+        }));
+
+        assert.deepStrictEqual([...imported.keys()], ['./src/app.ts']);
+        const [loaded] = imported.get('./src/app.ts')!;
+        assert.strictEqual(loaded.id, 'n1');
+        assert.strictEqual(loaded.endLine, 3);
+        assert.strictEqual(loaded.status, 'open');
+        assert.deepStrictEqual(loaded.replies, []);
+    });
+
+    it('throws on files that are not JSON', () => {
+        assert.throws(() => parseNotesFile('# Review Notes'));
+    });
+});
+
+describe('importNotes', () => {
+    let roots: string[];
+    let workspaceManager: WorkspaceManager;
+    const provider = { refreshAllThreads: () => undefined } as unknown as ReviewNotesProvider;
+
+    /**
+     * Open workspace folders holding the given notes files
+     */
+    const open = async (...folders: [string, Record<string, Note[]>][]) => {
+        for (const [name, notes] of folders) {
+            const workspaceRoot = createTempWorkspace(name);
+            writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify(notes));
+            roots.push(workspaceRoot);
+        }
+        setWorkspaceFolders(roots);
+        workspaceManager = new WorkspaceManager();
+        await workspaceManager.initialize();
+    };
+
+    /**
+     * Import a .notes.json file with the given content
+     */
+    const importFile = async (notes: Record<string, Note[]>) => {
+        const importPath = path.join(path.dirname(roots[0]), 'import.json');
+        writeFile(importPath, JSON.stringify(notes));
+        dialogAnswers.openDialog = [Uri.file(importPath)];
+        await importNotes(workspaceManager, provider);
+        await waitForSave();
+    };
+
+    beforeEach(() => {
+        roots = [];
+        shownMessages.length = 0;
+        dialogAnswers.workspaceFolderPicks = 0;
+    });
+
+    afterEach(() => {
+        workspaceManager.dispose();
+        setWorkspaceFolders([]);
+        dialogAnswers.openDialog = undefined;
+        dialogAnswers.workspaceFolderPick = undefined;
+        roots.forEach(removeTempWorkspace);
+    });
+
+    it('skips notes that already exist by id, or by line and text', async () => {
+        await open(['app', { './src/app.ts': [note('n1', 1, 'Existing'), note('n2', 5, 'Same place')] }]);
+
+        await importFile({
+            './src/app.ts': [note('n1', 9, 'Edited elsewhere'), note('other', 5, 'Same place'), note('n3', 5, 'New text')],
+            './src/util.ts': [note('n4', 0, 'New file')],
+        });
+
+        assert.deepStrictEqual(savedNoteIds(roots[0]), {
+            './src/app.ts': ['n1', 'n2', 'n3'],
+            './src/util.ts': ['n4'],
+        });
+        assert.deepStrictEqual(shownMessages, ['Imported 2 notes (2 duplicates skipped)']);
+        assert.strictEqual(dialogAnswers.workspaceFolderPicks, 0);
+    });
+
+    it('puts notes under a folder name into that folder and asks once for the rest', async () => {
+        await open(['app', {}], ['lib', {}]);
+        dialogAnswers.workspaceFolderPick = workspace.workspaceFolders![1];
+
+        await importFile({
+            './app/src/app.ts': [note('n1', 1, 'In app')],
+            './lib/index.ts': [note('n2', 2, 'In lib')],
+            './README.md': [note('n3', 3, 'Unknown folder')],
+            './docs/guide.md': [note('n4', 4, 'Unknown folder too')],
+        });
+
+        assert.deepStrictEqual(savedNoteIds(roots[0]), { './src/app.ts': ['n1'] });
+        assert.deepStrictEqual(savedNoteIds(roots[1]), {
+            './index.ts': ['n2'],
+            './README.md': ['n3'],
+            './docs/guide.md': ['n4'],
+        });
+        assert.strictEqual(dialogAnswers.workspaceFolderPicks, 1);
+    });
+
+    it('imports nothing when no folder is picked for notes outside the folders', async () => {
+        await open(['app', {}], ['lib', {}]);
+
+        await importFile({
+            './app/src/app.ts': [note('n1', 1, 'In app')],
+            './README.md': [note('n2', 3, 'Unknown folder')],
+        });
+
+        assert.deepStrictEqual(savedNoteIds(roots[0]), {});
+        assert.deepStrictEqual(savedNoteIds(roots[1]), {});
+        assert.deepStrictEqual(shownMessages, []);
+    });
+});
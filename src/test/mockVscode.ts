@@ -0,0 +1,272 @@
+import * as path from 'path';
+import Module = require('module');
+
+/**
+ * A stand-in for the parts of the `vscode` API the extension uses, so modules can be
+ * loaded and tested under plain Node. Importing this file routes `require('vscode')` here;
+ * test files import it before any module under test.
+ */
+
+type Listener<T> = (event: T) => void;
+
+export class Disposable {
+    static from(...disposables: { dispose(): unknown }[]): Disposable {
+        return new Disposable(() => disposables.forEach(disposable => disposable.dispose()));
+    }
+
+    constructor(private callOnDispose: () => unknown) {}
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: Listener<T>[] = [];
+
+    event = (listener: Listener<T>): Disposable => {
+        this.listeners.push(listener);
+        return new Disposable(() => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        });
+    };
+
+    fire(event: T): void {
+        [...this.listeners].forEach(listener => listener(event));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+export class Uri {
+    readonly scheme = 'file';
+
+    private constructor(public readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri(path.resolve(fsPath));
+    }
+
+    get path(): string {
+        return this.fsPath.replace(/\\/g, '/');
+    }
+
+    toString(): string {
+        return `file://${this.path}`;
+    }
+}
+
+export class Position {
+    constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+    public readonly start: Position;
+    public readonly end: Position;
+
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+        this.start = new Position(startLine, startCharacter);
+        this.end = new Position(endLine, endCharacter);
+    }
+}
+
+export class ThemeColor {
+    constructor(public readonly id: string) {}
+}
+
+export class ThemeIcon {
+    static readonly File = new ThemeIcon('file');
+    static readonly Folder = new ThemeIcon('folder');
+
+    constructor(public readonly id: string, public readonly color?: ThemeColor) {}
+}
+
+export class MarkdownString {
+    constructor(public value: string = '', public supportThemeIcons: boolean = false) {}
+}
+
+export enum TreeItemCollapsibleState {
+    None = 0,
+    Collapsed = 1,
+    Expanded = 2,
+}
+
+export class TreeItem {
+    description?: string;
+    tooltip?: string | MarkdownString;
+    contextValue?: string;
+    iconPath?: ThemeIcon;
+    resourceUri?: Uri;
+    command?: { command: string; title: string; arguments?: unknown[] };
+
+    constructor(public label: string, public collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.None) {}
+}
+
+export class RelativePattern {
+    constructor(public readonly base: string, public readonly pattern: string) {}
+}
+
+export interface WorkspaceFolder {
+    uri: Uri;
+    name: string;
+    index: number;
+}
+
+/**
+ * Settings by full key, e.g. 'reviewNotes.explorer.showResolved'
+ */
+const settings = new Map<string, unknown>();
+
+interface FileWatcherEvent {
+    kind: 'change' | 'create' | 'delete';
+    uri: Uri;
+}
+const fileWatcherEmitter = new EventEmitter<FileWatcherEvent>();
+const workspaceFoldersEmitter = new EventEmitter<{ added: WorkspaceFolder[]; removed: WorkspaceFolder[] }>();
+const configurationEmitter = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+const createFilesEmitter = new EventEmitter<{ files: Uri[] }>();
+const deleteFilesEmitter = new EventEmitter<{ files: Uri[] }>();
+const renameFilesEmitter = new EventEmitter<{ files: { oldUri: Uri; newUri: Uri }[] }>();
+
+/**
+ * Messages shown through vscode.window, newest last
+ */
+export const shownMessages: string[] = [];
+
+/**
+ * Answers of the next open dialogs and workspace folder picks, and how often the pick was shown
+ */
+export const dialogAnswers = {
+    openDialog: undefined as Uri[] | undefined,
+    workspaceFolderPick: undefined as WorkspaceFolder | undefined,
+    workspaceFolderPicks: 0,
+};
+
+export const workspace = {
+    workspaceFolders: undefined as WorkspaceFolder[] | undefined,
+
+    getConfiguration(section?: string) {
+        const fullKey = (key: string) => section ? `${section}.${key}` : key;
+        return {
+            get<T>(key: string, defaultValue?: T): T | undefined {
+                return settings.has(fullKey(key)) ? settings.get(fullKey(key)) as T : defaultValue;
+            },
+            async update(key: string, value: unknown): Promise<void> {
+                settings.set(fullKey(key), value);
+            },
+        };
+    },
+
+    getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+        return (workspace.workspaceFolders ?? [])
+            .filter(folder => uri.fsPath === folder.uri.fsPath || uri.fsPath.startsWith(folder.uri.fsPath + path.sep))
+            .sort((a, b) => b.uri.fsPath.length - a.uri.fsPath.length)[0];
+    },
+
+    createFileSystemWatcher() {
+        const on = (kind: FileWatcherEvent['kind']) => (listener: Listener<Uri>) =>
+            fileWatcherEmitter.event(event => event.kind === kind && listener(event.uri));
+        return { onDidChange: on('change'), onDidCreate: on('create'), onDidDelete: on('delete'), dispose: () => undefined };
+    },
+
+    onDidChangeWorkspaceFolders: workspaceFoldersEmitter.event,
+    onDidChangeConfiguration: configurationEmitter.event,
+    onDidCreateFiles: createFilesEmitter.event,
+    onDidDeleteFiles: deleteFilesEmitter.event,
+    onDidRenameFiles: renameFilesEmitter.event,
+    onDidChangeTextDocument: new EventEmitter<unknown>().event,
+    onDidSaveTextDocument: new EventEmitter<unknown>().event,
+};
+
+const showMessage = async (message: string): Promise<undefined> => {
+    shownMessages.push(message);
+    return undefined;
+};
+
+export const window = {
+    activeTextEditor: undefined,
+    visibleTextEditors: [],
+    showInformationMessage: showMessage,
+    showWarningMessage: showMessage,
+    showErrorMessage: showMessage,
+    showOpenDialog: async () => dialogAnswers.openDialog,
+    showWorkspaceFolderPick: async () => {
+        dialogAnswers.workspaceFolderPicks++;
+        return dialogAnswers.workspaceFolderPick;
+    },
+};
+
+export const commands = {
+    registerCommand: () => new Disposable(() => undefined),
+    executeCommand: async () => undefined,
+};
+
+/**
+ * Replace the workspace folders, firing the change event like VS Code does
+ */
+export function setWorkspaceFolders(folderPaths: string[]): void {
+    const previous = workspace.workspaceFolders ?? [];
+    const folders = folderPaths.map((folderPath, index) => ({
+        uri: Uri.file(folderPath),
+        name: path.basename(folderPath),
+        index,
+    }));
+    workspace.workspaceFolders = folders.length > 0 ? folders : undefined;
+
+    workspaceFoldersEmitter.fire({
+        added: folders.filter(folder => !previous.some(p => p.uri.fsPath === folder.uri.fsPath)),
+        removed: previous.filter(folder => !folders.some(f => f.uri.fsPath === folder.uri.fsPath)),
+    });
+}
+
+/**
+ * Change a setting, firing the configuration change event
+ */
+export function setSetting(key: string, value: unknown): void {
+    if (value === undefined) {
+        settings.delete(key);
+    } else {
+        settings.set(key, value);
+    }
+    configurationEmitter.fire({ affectsConfiguration: section => key === section || key.startsWith(`${section}.`) });
+}
+
+/**
+ * Report a file change to every file system watcher, as when another process writes to disk
+ */
+export function fireFileSystemWatchers(kind: FileWatcherEvent['kind'], filePath: string): void {
+    fileWatcherEmitter.fire({ kind, uri: Uri.file(filePath) });
+}
+
+/**
+ * Fire a file deletion event, as after deleting files in the explorer
+ */
+export function fireDidDeleteFiles(files: Uri[]): void {
+    deleteFilesEmitter.fire({ files });
+}
+
+const vscode = {
+    Disposable,
+    EventEmitter,
+    Uri,
+    Position,
+    Range,
+    ThemeColor,
+    ThemeIcon,
+    MarkdownString,
+    TreeItemCollapsibleState,
+    TreeItem,
+    RelativePattern,
+    workspace,
+    window,
+    commands,
+};
+
+// Route require('vscode') to the stand-in
+const moduleWithLoad = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const originalLoad = moduleWithLoad._load;
+moduleWithLoad._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? vscode : originalLoad.call(this, request, ...rest);
+};
@@ -0,0 +1,87 @@
+import './mockVscode';
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import { mergeNotes, resolveConflicts } from '../noteMerge';
+import { Note, migrateNote } from '../utils';
+
+function note(id: string, fields: Partial<Note> = {}): Note {
+    return migrateNote({ id, line: 0, text: id, timestamp: 1000, author: 'ana', ...fields });
+}
+
+function notesOf(files: Record<string, Note[]>): Map<string, Note[]> {
+    return new Map(Object.entries(files));
+}
+
+describe('mergeNotes', () => {
+    const base = notesOf({ './a.ts': [note('n1'), note('n2')] });
+
+    it('keeps notes added and deleted on either side', () => {
+        const mine = notesOf({ './a.ts': [note('n1'), note('n2'), note('mine')] });
+        const theirs = notesOf({ './a.ts': [note('n2')], './b.ts': [note('theirs')] });
+
+        const { merged, conflicts } = mergeNotes(base, mine, theirs);
+
+        assert.deepStrictEqual(conflicts, []);
+        assert.deepStrictEqual(merged.get('./a.ts')?.map(n => n.id), ['n2', 'mine']);
+        assert.deepStrictEqual(merged.get('./b.ts')?.map(n => n.id), ['theirs']);
+    });
+
+    it('merges changes to different fields of the same note', () => {
+        const mine = notesOf({ './a.ts': [note('n1', { status: 'resolved', timestamp: 2000 }), note('n2')] });
+        const theirs = notesOf({ './a.ts': [note('n1', { priority: 'high', timestamp: 3000 }), note('n2')] });
+
+        const { merged, conflicts } = mergeNotes(base, mine, theirs);
+        const n1 = merged.get('./a.ts')?.find(n => n.id === 'n1');
+
+        assert.deepStrictEqual(conflicts, []);
+        assert.deepStrictEqual([n1?.status, n1?.priority, n1?.timestamp], ['resolved', 'high', 3000]);
+    });
+
+    it('keeps the local location of notes moved on both sides', () => {
+        const mine = notesOf({ './a.ts': [note('n1', { line: 5, endLine: 5 }), note('n2')] });
+        const theirs = notesOf({ './a.ts': [note('n1', { line: 7, endLine: 7 }), note('n2')] });
+
+        const { merged, conflicts } = mergeNotes(base, mine, theirs);
+
+        assert.deepStrictEqual(conflicts, []);
+        assert.strictEqual(merged.get('./a.ts')?.find(n => n.id === 'n1')?.line, 5);
+    });
+
+    it('merges replies by id', () => {
+        const reply = (id: string) => ({ id, text: id, author: 'bo', timestamp: 1000 });
+        const mine = notesOf({ './a.ts': [note('n1', { replies: [reply('r1')] }), note('n2')] });
+        const theirs = notesOf({ './a.ts': [note('n1', { replies: [reply('r2')] }), note('n2')] });
+
+        const { merged, conflicts } = mergeNotes(base, mine, theirs);
+
+        assert.deepStrictEqual(conflicts, []);
+        assert.deepStrictEqual(merged.get('./a.ts')?.find(n => n.id === 'n1')?.replies.map(r => r.id), ['r2', 'r1']);
+    });
+
+    it('reports notes edited differently on both sides, resolved as the user chooses', () => {
+        const mine = notesOf({ './a.ts': [note('n1', { text: 'Mine' }), note('n2', { status: 'resolved' })] });
+        const theirs = notesOf({ './a.ts': [note('n1', { text: 'Theirs' }), note('n2', { category: 'bug' })] });
+
+        const { merged, conflicts } = mergeNotes(base, mine, theirs);
+        assert.deepStrictEqual(conflicts.map(c => c.id), ['n1']);
+
+        const texts = (notes: Map<string, Note[]>) => notes.get('./a.ts')!.map(n => n.text).sort();
+        assert.deepStrictEqual(texts(resolveConflicts(merged, conflicts, 'mine')), ['Mine', 'n2']);
+        assert.deepStrictEqual(texts(resolveConflicts(merged, conflicts, 'theirs')), ['Theirs', 'n2']);
+        assert.deepStrictEqual(texts(resolveConflicts(merged, conflicts, 'both')), ['Mine', 'Theirs', 'n2']);
+
+        // Changes to other notes are kept whatever the choice
+        const n2 = resolveConflicts(merged, conflicts, 'theirs').get('./a.ts')!.find(n => n.id === 'n2');
+        assert.deepStrictEqual([n2?.status, n2?.category], ['resolved', 'bug']);
+    });
+
+    it('reports notes edited here but deleted on disk', () => {
+        const mine = notesOf({ './a.ts': [note('n1', { text: 'Edited' }), note('n2')] });
+        const theirs = notesOf({ './a.ts': [note('n2')] });
+
+        const { merged, conflicts } = mergeNotes(base, mine, theirs);
+
+        assert.deepStrictEqual(conflicts.map(c => [c.id, !!c.mine, !!c.theirs]), [['n1', true, false]]);
+        assert.deepStrictEqual(resolveConflicts(merged, conflicts, 'theirs').get('./a.ts')?.map(n => n.id), ['n2']);
+    });
+});
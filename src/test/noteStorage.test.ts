@@ -0,0 +1,277 @@
+import { fireFileSystemWatchers, shownMessages } from './mockVscode';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { NoteStorage } from '../noteStorage';
+import { Note, migrateNote } from '../utils';
+import { createTempWorkspace, removeTempWorkspace, writeFile, waitForSave } from './helpers';
+
+function note(id: string, line: number, text: string): Note {
+    return migrateNote({ id, line, text, timestamp: 1000, author: 'ana' });
+}
+
+function readNotesFile(workspaceRoot: string): Record<string, unknown> {
+    return JSON.parse(fs.readFileSync(path.join(workspaceRoot, '.notes.json'), 'utf-8'));
+}
+
+describe('NoteStorage', () => {
+    let workspaceRoot: string;
+    let storages: NoteStorage[];
+
+    const createStorage = async () => {
+        const storage = new NoteStorage(workspaceRoot);
+        await storage.load();
+        storages.push(storage);
+        return storage;
+    };
+    const fileUri = (relativePath: string) => vscode.Uri.file(path.join(workspaceRoot, relativePath));
+
+    beforeEach(() => {
+        workspaceRoot = createTempWorkspace();
+        storages = [];
+    });
+
+    afterEach(() => {
+        storages.forEach(storage => storage.dispose());
+        removeTempWorkspace(workspaceRoot);
+    });
+
+    it('loads legacy notes with the fields they are missing', async () => {
+        writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify({
+            './src/app.ts': [{ id: 'n1', line: 3, text: 'Old note', timestamp: 1000 }],
+        }));
+
+        const storage = await createStorage();
+        const loaded = storage.getNotesForFile(fileUri('src/app.ts'));
+
+        assert.strictEqual(loaded.length, 1);
+        assert.strictEqual(loaded[0].endLine, 3);
+        assert.strictEqual(loaded[0].status, 'open');
+        assert.deepStrictEqual(loaded[0].replies, []);
+    });
+
+    it('writes notes back and reads them again', async () => {
+        writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify({
+            $config: { categories: [{ id: 'security', icon: '🔒' }] },
+        }));
+
+        const storage = await createStorage();
+        storage.addNote(fileUri('src/app.ts'), note('n1', 1, 'First'));
+        storage.addReply('n1', { id: 'r1', text: 'Reply', author: 'bo', timestamp: 2000 });
+        storage.updateNoteStatus('n1', 'resolved');
+        await waitForSave();
+
+        const data = readNotesFile(workspaceRoot);
+        assert.deepStrictEqual(Object.keys(data), ['$config', './src/app.ts'], 'definitions stay first');
+
+        const reloaded = await createStorage();
+        assert.deepStrictEqual(reloaded.getAllNotes(), storage.getAllNotes());
+        assert.deepStrictEqual(reloaded.getNoteTypes(), { categories: [{ id: 'security', icon: '🔒' }] });
+    });
+
+    it('drops files whose last note was deleted', async () => {
+        const storage = await createStorage();
+        storage.addNote(fileUri('a.ts'), note('n1', 0, 'Only note'));
+        storage.deleteNote(fileUri('a.ts'), 'n1');
+        await waitForSave();
+
+        assert.deepStrictEqual(readNotesFile(workspaceRoot), {});
+        assert.strictEqual(storage.getTotalNoteCount(), 0);
+    });
+
+    it('merges notes added on disk since the last load instead of overwriting them', async () => {
+        writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify({ './a.ts': [note('n1', 0, 'Shared')] }));
+        const storage = await createStorage();
+
+        // Another window adds a note and edits the shared one
+        writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify({
+            './a.ts': [{ ...note('n1', 0, 'Shared, edited elsewhere') }],
+            './b.ts': [note('n2', 5, 'Theirs')],
+        }));
+
+        storage.addNote(fileUri('c.ts'), note('n3', 2, 'Mine'));
+        await waitForSave();
+
+        const data = readNotesFile(workspaceRoot) as Record<string, Note[]>;
+        assert.deepStrictEqual(Object.keys(data).sort(), ['./a.ts', './b.ts', './c.ts']);
+        assert.strictEqual(data['./a.ts'][0].text, 'Shared, edited elsewhere');
+    });
+
+    it('drops notes deleted on disk instead of writing them back', async () => {
+        const notesFile = path.join(workspaceRoot, '.notes.json');
+        writeFile(notesFile, JSON.stringify({ './a.ts': [note('n1', 0, 'Deleted elsewhere')] }));
+        const storage = await createStorage();
+        let reloads = 0;
+        storage.watchFile(() => reloads++);
+
+        fs.rmSync(notesFile);
+        fireFileSystemWatchers('delete', notesFile);
+        await waitForSave();
+
+        assert.strictEqual(storage.getTotalNoteCount(), 0);
+        assert.strictEqual(reloads, 1);
+        assert.ok(!fs.existsSync(notesFile), 'nothing to write back');
+
+        storage.addNote(fileUri('b.ts'), note('n2', 0, 'New'));
+        await waitForSave();
+        assert.deepStrictEqual(Object.keys(readNotesFile(workspaceRoot)), ['./b.ts']);
+    });
+
+    it('merges a change made on disk during a save once the save is done', async () => {
+        const notesFile = path.join(workspaceRoot, '.notes.json');
+        writeFile(notesFile, JSON.stringify({ './a.ts': [note('n1', 0, 'Mine')] }));
+        const storage = await createStorage();
+        let reloads = 0;
+        storage.watchFile(() => reloads++);
+
+        // Another window saves right after this one, and its change is reported while the save still runs
+        const internals = storage as unknown as {
+            backend: { write(content: string): Promise<string> };
+            handleExternalChange(): Promise<void>;
+        };
+        const write = internals.backend.write.bind(internals.backend);
+        internals.backend.write = async content => {
+            const written = await write(content);
+            writeFile(notesFile, JSON.stringify({ ...JSON.parse(written), './b.ts': [note('n2', 0, 'Theirs')] }));
+            await internals.handleExternalChange();
+            internals.backend.write = write;
+            return written;
+        };
+
+        storage.updateNoteStatus('n1', 'resolved');
+        await waitForSave();
+
+        assert.strictEqual(storage.getTotalNoteCount(), 2);
+        assert.strictEqual(reloads, 1);
+    });
+
+    it('moves notes along with a renamed folder', async () => {
+        const storage = await createStorage();
+        storage.addNote(fileUri('old/a.ts'), note('n1', 0, 'A'));
+        storage.addNote(fileUri('old/sub/b.ts'), note('n2', 0, 'B'));
+        storage.addNote(fileUri('older.ts'), note('n3', 0, 'Not in the folder'));
+
+        const taken = storage.takeNotes(fileUri('old'));
+        for (const [oldPath, notes] of taken.entries()) {
+            const newPath = path.join(workspaceRoot, 'new', path.relative(path.join(workspaceRoot, 'old'), oldPath));
+            storage.putNotes(vscode.Uri.file(newPath), notes);
+        }
+
+        assert.deepStrictEqual(storage.getFilesWithNotes().sort(), ['./new/a.ts', './new/sub/b.ts', './older.ts']);
+        await waitForSave();
+    });
+
+    it('lists files with notes that no longer exist', async () => {
+        writeFile(path.join(workspaceRoot, 'kept.ts'), '');
+        const storage = await createStorage();
+        storage.addNote(fileUri('kept.ts'), note('n1', 0, 'Kept'));
+        storage.addNote(fileUri('gone.ts'), note('n2', 0, 'Gone'));
+
+        assert.deepStrictEqual(storage.getMissingFiles(), ['./gone.ts']);
+        assert.strictEqual(storage.deleteNotesForFile('./gone.ts'), 1);
+        assert.deepStrictEqual(storage.getMissingFiles(), []);
+        await waitForSave();
+    });
+
+    it('checks whether files exist once, then follows file events', async () => {
+        writeFile(path.join(workspaceRoot, 'kept.ts'), '');
+        const storage = await createStorage();
+        storage.watchFile(() => undefined);
+        storage.addNote(fileUri('kept.ts'), note('n1', 0, 'Kept'));
+        assert.deepStrictEqual(storage.getMissingFiles(), []);
+
+        let changes = 0;
+        storage.onDidChange(() => changes++);
+        fs.rmSync(path.join(workspaceRoot, 'kept.ts'));
+        assert.deepStrictEqual(storage.getMissingFiles(), [], 'not checked again on every call');
+
+        fireFileSystemWatchers('delete', path.join(workspaceRoot, 'kept.ts'));
+        assert.deepStrictEqual(storage.getMissingFiles(), ['./kept.ts']);
+        assert.strictEqual(changes, 1);
+
+        writeFile(path.join(workspaceRoot, 'kept.ts'), '');
+        fireFileSystemWatchers('create', path.join(workspaceRoot, 'kept.ts'));
+        assert.deepStrictEqual(storage.getMissingFiles(), []);
+        await waitForSave();
+    });
+
+    it('migrates to one file per source file under .notes/', async () => {
+        writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify({
+            './src/app.ts': [note('n2', 4, 'Second'), note('n1', 1, 'First')],
+            '.github/ci.yml': [note('n3', 0, 'CI')],
+        }));
+        const storage = await createStorage();
+
+        await storage.migrateToDirectory();
+
+        assert.strictEqual(storage.getStorageLayout(), 'directory');
+        assert.ok(!fs.existsSync(path.join(workspaceRoot, '.notes.json')));
+
+        const appNotes = JSON.parse(fs.readFileSync(path.join(workspaceRoot, '.notes', 'src', 'app.ts.json'), 'utf-8'));
+        assert.deepStrictEqual(appNotes.map((n: Note) => n.id), ['n1', 'n2'], 'notes are sorted by id');
+        assert.deepStrictEqual(Object.keys(appNotes[0]), Object.keys(appNotes[0]).sort(), 'keys are sorted');
+
+        const reloaded = await createStorage();
+        assert.strictEqual(reloaded.getStorageLayout(), 'directory');
+        assert.deepStrictEqual(reloaded.getFilesWithNotes().sort(), ['./src/app.ts', '.github/ci.yml']);
+        assert.strictEqual(reloaded.getNoteById('n3')?.note.text, 'CI');
+    });
+
+    it('follows a migration to .notes/ pulled from another checkout', async () => {
+        const notesFile = path.join(workspaceRoot, '.notes.json');
+        writeFile(notesFile, JSON.stringify({ './a.ts': [note('n1', 0, 'Shared')] }));
+        const storage = await createStorage();
+        let reloads = 0;
+        storage.watchFile(() => reloads++);
+
+        // The pull removes .notes.json and adds .notes/ with a note from the teammate
+        fs.rmSync(notesFile);
+        writeFile(path.join(workspaceRoot, '.notes', 'a.ts.json'), JSON.stringify([note('n1', 0, 'Shared')]));
+        writeFile(path.join(workspaceRoot, '.notes', 'b.ts.json'), JSON.stringify([note('n2', 3, 'Theirs')]));
+        fireFileSystemWatchers('delete', notesFile);
+        await waitForSave();
+
+        assert.strictEqual(storage.getStorageLayout(), 'directory');
+        assert.deepStrictEqual(storage.getFilesWithNotes().sort(), ['./a.ts', './b.ts']);
+        assert.strictEqual(reloads, 1);
+
+        storage.addNote(fileUri('c.ts'), note('n3', 1, 'Mine'));
+        await waitForSave();
+        assert.ok(!fs.existsSync(notesFile), '.notes.json is not recreated');
+        assert.ok(fs.existsSync(path.join(workspaceRoot, '.notes', 'c.ts.json')));
+    });
+
+    it('keeps notes of a root file named $config apart from the categories in .notes/', async () => {
+        fs.mkdirSync(path.join(workspaceRoot, '.notes'));
+        const storage = await createStorage();
+        writeFile(path.join(workspaceRoot, '.notes', '$config.json'), JSON.stringify({ categories: [{ id: 'security' }] }));
+        await storage.load();
+
+        storage.addNote(fileUri('$config'), note('n1', 0, 'On $config'));
+        await waitForSave();
+
+        assert.ok(fs.existsSync(path.join(workspaceRoot, '.notes', '$$config.json')));
+        const reloaded = await createStorage();
+        assert.deepStrictEqual(reloaded.getNoteTypes(), { categories: [{ id: 'security' }] });
+        assert.deepStrictEqual(reloaded.getFilesWithNotes(), ['./$config']);
+    });
+
+    it('loads the other files of .notes/ when one cannot be read, and leaves it unchanged', async () => {
+        const broken = '<<<<<<< HEAD\n[]\n=======\n[]\n>>>>>>> theirs\n';
+        writeFile(path.join(workspaceRoot, '.notes', 'a.ts.json'), broken);
+        writeFile(path.join(workspaceRoot, '.notes', 'b.ts.json'), JSON.stringify([note('n2', 0, 'Readable')]));
+        shownMessages.length = 0;
+
+        const storage = await createStorage();
+        assert.deepStrictEqual(storage.getFilesWithNotes(), ['./b.ts']);
+        assert.match(shownMessages.join('\n'), /Could not read \.notes\/a\.ts\.json/);
+
+        storage.addNote(fileUri('c.ts'), note('n3', 0, 'New'));
+        await waitForSave();
+
+        assert.strictEqual(fs.readFileSync(path.join(workspaceRoot, '.notes', 'a.ts.json'), 'utf-8'), broken);
+        assert.ok(fs.existsSync(path.join(workspaceRoot, '.notes', 'c.ts.json')));
+    });
+});
@@ -0,0 +1,146 @@
+import { setWorkspaceFolders, setSetting, TreeItem } from './mockVscode';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import { NotesTreeProvider } from '../notesTreeProvider';
+import { NoteFilterState } from '../noteFilter';
+import { WorkspaceManager } from '../workspaceManager';
+import { migrateNote } from '../utils';
+import { createTempWorkspace, removeTempWorkspace, writeFile, createMemento } from './helpers';
+
+/**
+ * Create a workspace folder with a notes file and the noted source files
+ */
+function createWorkspace(name: string, notes: Record<string, object[]>): string {
+    const workspaceRoot = createTempWorkspace(name);
+    writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify(notes));
+    for (const filePath of Object.keys(notes)) {
+        writeFile(path.join(workspaceRoot, filePath), '');
+    }
+    return workspaceRoot;
+}
+
+function note(id: string, line: number, text: string, fields: object = {}) {
+    return migrateNote({ id, line, text, timestamp: 1000, author: 'ana', ...fields });
+}
+
+/**
+ * Labels of the children of an item, or of the root items
+ */
+async function labels(tree: NotesTreeProvider, parent?: unknown): Promise<string[]> {
+    const children = await tree.getChildren(parent as never);
+    return children.map(child => (child as unknown as TreeItem).label);
+}
+
+/**
+ * Find a child item by label
+ */
+async function child(tree: NotesTreeProvider, label: string, parent?: unknown): Promise<unknown> {
+    const children = await tree.getChildren(parent as never);
+    const found = children.find(item => (item as unknown as TreeItem).label === label);
+    assert.ok(found, `No tree item "${label}"`);
+    return found;
+}
+
+describe('NotesTreeProvider', () => {
+    let roots: string[];
+    let workspaceManager: WorkspaceManager;
+    let filterState: NoteFilterState;
+    let tree: NotesTreeProvider;
+
+    const open = async (...workspaceRoots: string[]) => {
+        roots.push(...workspaceRoots);
+        setWorkspaceFolders(workspaceRoots);
+        workspaceManager = new WorkspaceManager();
+        await workspaceManager.initialize();
+
+        const memento = createMemento();
+        filterState = new NoteFilterState(memento);
+        tree = new NotesTreeProvider(workspaceManager, filterState, memento);
+    };
+
+    beforeEach(() => {
+        roots = [];
+    });
+
+    afterEach(() => {
+        tree.dispose();
+        workspaceManager.dispose();
+        setWorkspaceFolders([]);
+        setSetting('reviewNotes.explorer.showResolved', undefined);
+        roots.forEach(removeTempWorkspace);
+    });
+
+    it('lists files sorted by path, their notes by line and the replies of each note', async () => {
+        await open(createWorkspace('app', {
+            './src/b.ts': [note('n2', 9, 'Later'), note('n1', 1, 'Earlier', {
+                replies: [{ id: 'r1', text: 'A reply', author: 'bo', timestamp: 2000 }],
+            })],
+            './a.ts': [note('n3', 0, 'Top')],
+        }));
+
+        assert.deepStrictEqual(await labels(tree), ['a.ts', 'b.ts']);
+
+        const file = await child(tree, 'b.ts');
+        assert.deepStrictEqual(await labels(tree, file), ['📝 Earlier', '📝 Later']);
+        assert.deepStrictEqual(await labels(tree, await child(tree, '📝 Earlier', file)), ['A reply']);
+    });
+
+    it('groups notes by category', async () => {
+        await open(createWorkspace('app', {
+            './a.ts': [note('n1', 0, 'Crash', { category: 'bug' }), note('n2', 1, 'Later', { category: 'todo' })],
+        }));
+        await tree.setGrouping('category');
+
+        assert.deepStrictEqual(await labels(tree), ['📋 TODO', '🐛 BUG']);
+    });
+
+    it('applies the filter and the resolved setting', async () => {
+        await open(createWorkspace('app', {
+            './a.ts': [
+                note('n1', 0, 'Open bug', { category: 'bug' }),
+                note('n2', 1, 'Fixed bug', { category: 'bug', status: 'resolved' }),
+                note('n3', 2, 'Idea', { category: 'idea' }),
+            ],
+        }));
+
+        await filterState.set({ categories: ['bug'] });
+        assert.deepStrictEqual(await labels(tree, await child(tree, 'a.ts')), ['🐛 Open bug', '🐛 Fixed bug']);
+
+        setSetting('reviewNotes.explorer.showResolved', false);
+        assert.deepStrictEqual(await labels(tree, await child(tree, 'a.ts')), ['🐛 Open bug']);
+    });
+
+    it('collects notes of missing files in their own node', async () => {
+        const workspaceRoot = createWorkspace('app', { './kept.ts': [note('n1', 0, 'Kept')] });
+        writeFile(path.join(workspaceRoot, '.notes.json'), JSON.stringify({
+            './kept.ts': [note('n1', 0, 'Kept')],
+            './gone.ts': [note('n2', 0, 'Gone')],
+        }));
+        await open(workspaceRoot);
+
+        assert.deepStrictEqual(await labels(tree), ['kept.ts', 'Missing Files']);
+        assert.deepStrictEqual(await labels(tree, await child(tree, 'Missing Files')), ['gone.ts']);
+    });
+
+    it('follows workspace folders being added and removed', async () => {
+        const first = createWorkspace('first', { './a.ts': [note('n1', 0, 'First')] });
+        const second = createWorkspace('second', { './b.ts': [note('n2', 0, 'Second')] });
+        await open(first);
+
+        let refreshed = 0;
+        tree.onDidChangeTreeData(() => refreshed++);
+        assert.deepStrictEqual(await labels(tree), ['a.ts']);
+
+        const foldersChanged = new Promise<void>(resolve => workspaceManager.onDidChangeFolders(resolve));
+        setWorkspaceFolders([first, second]);
+        await foldersChanged;
+
+        assert.ok(refreshed > 0, 'the tree refreshes when folders change');
+        assert.deepStrictEqual(await labels(tree), ['first', 'second']);
+        assert.deepStrictEqual(await labels(tree, await child(tree, 'second')), ['b.ts']);
+
+        setWorkspaceFolders([second]);
+        assert.deepStrictEqual(await labels(tree), ['b.ts']);
+    });
+});
@@ -0,0 +1,91 @@
+import './mockVscode';
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { loadSourceExcerpts, getLanguageId } from '../sourceExcerpts';
+import { Note, getAbsolutePath, migrateNote } from '../utils';
+import { createTempWorkspace, removeTempWorkspace, writeFile } from './helpers';
+
+const SOURCE = ['line 1', 'line 2', 'line 3', 'line 4', 'line 5', 'line 6', 'line 7', ''].join('\n');
+
+function note(id: string, line: number, fields: object = {}): Note {
+    return migrateNote({ id, line, text: id, timestamp: 1700000000000, author: 'ana', ...fields });
+}
+
+function git(workspaceRoot: string, ...args: string[]): void {
+    execFileSync('git', ['-c', 'user.name=ana', '-c', 'user.email=ana@example.com', ...args], { cwd: workspaceRoot, stdio: 'ignore' });
+}
+
+describe('Source excerpts', () => {
+    let workspaceRoot: string;
+    const resolvePath = (filePath: string) => getAbsolutePath(filePath, workspaceRoot);
+
+    before(() => {
+        workspaceRoot = createTempWorkspace();
+        writeFile(path.join(workspaceRoot, 'src', 'app.ts'), SOURCE);
+    });
+
+    after(() => removeTempWorkspace(workspaceRoot));
+
+    it('reads the noted lines with context, clipped to the file', async () => {
+        const single = note('single', 3);
+        const wholeLines = note('wholeLines', 0, { endLine: 2, endCharacter: 0 });
+        const atEnd = note('atEnd', 6);
+        const excerpts = await loadSourceExcerpts(new Map([['./src/app.ts', [single, wholeLines, atEnd]]]), resolvePath, 1);
+
+        assert.deepStrictEqual(excerpts.get(single), {
+            language: 'typescript',
+            startLine: 3,
+            lines: ['line 3', 'line 4', 'line 5'],
+            noteStartLine: 4,
+            noteEndLine: 4,
+            commit: undefined,
+            modified: undefined,
+        });
+        assert.deepStrictEqual(excerpts.get(wholeLines)?.lines, ['line 1', 'line 2', 'line 3']);
+        assert.deepStrictEqual([excerpts.get(wholeLines)?.noteStartLine, excerpts.get(wholeLines)?.noteEndLine], [1, 2]);
+        assert.deepStrictEqual(excerpts.get(atEnd)?.lines, ['line 6', 'line 7']);
+    });
+
+    it('skips missing files and notes past the end of their file', async () => {
+        const missing = note('missing', 0);
+        const pastEnd = note('pastEnd', 40);
+        const excerpts = await loadSourceExcerpts(
+            new Map([['./src/gone.ts', [missing]], ['./src/app.ts', [pastEnd]]]),
+            resolvePath,
+            2
+        );
+
+        assert.strictEqual(excerpts.size, 0);
+    });
+
+    it('labels excerpts with the commit, and whether the file changed since', async () => {
+        git(workspaceRoot, 'init', '-q');
+        writeFile(path.join(workspaceRoot, 'lib.py'), 'pass\n');
+        git(workspaceRoot, 'add', '-A');
+        git(workspaceRoot, 'commit', '-q', '-m', 'Initial commit');
+        writeFile(path.join(workspaceRoot, 'src', 'app.ts'), SOURCE.replace('line 2', 'line two'));
+        const commit = execFileSync('git', ['rev-parse', '--short', 'HEAD'], { cwd: workspaceRoot, encoding: 'utf-8' }).trim();
+
+        const changed = note('changed', 1);
+        const committed = note('committed', 0);
+        const excerpts = await loadSourceExcerpts(
+            new Map([['./src/app.ts', [changed]], ['./lib.py', [committed]]]),
+            resolvePath,
+            0
+        );
+
+        assert.deepStrictEqual(excerpts.get(changed)?.lines, ['line two']);
+        assert.deepStrictEqual([excerpts.get(changed)?.commit, excerpts.get(changed)?.modified], [commit, true]);
+        assert.deepStrictEqual([excerpts.get(committed)?.commit, excerpts.get(committed)?.modified], [commit, false]);
+        assert.strictEqual(excerpts.get(committed)?.language, 'python');
+    });
+
+    it('names languages by file extension', () => {
+        assert.deepStrictEqual(
+            ['a.tsx', 'b.PY', 'Dockerfile', 'c.unknown'].map(getLanguageId),
+            ['tsx', 'python', 'dockerfile', 'text']
+        );
+    });
+});
@@ -0,0 +1,129 @@
+import './mockVscode';
+import { describe, it } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+    getRelativePath,
+    getAbsolutePath,
+    normalizeFilePath,
+    migrateNote,
+    formatNoteRange,
+    parseNoteRange,
+    configureNoteTypes,
+    getCategoryConfig,
+    getPriorityConfig,
+    getPriorities,
+} from '../utils';
+
+describe('file paths', () => {
+    const root = path.resolve('/workspace');
+
+    it('makes paths relative to the workspace root with a ./ prefix', () => {
+        assert.strictEqual(getRelativePath(path.join(root, 'src', 'app.ts'), root), './src/app.ts');
+        assert.strictEqual(getRelativePath(path.join(root, 'README.md'), root), './README.md');
+    });
+
+    it('does not prefix paths that already start with a dot', () => {
+        assert.strictEqual(getRelativePath(path.join(root, '.github', 'ci.yml'), root), '.github/ci.yml');
+    });
+
+    it('resolves relative paths against the workspace root', () => {
+        assert.strictEqual(getAbsolutePath('./src/app.ts', root), path.join(root, 'src', 'app.ts'));
+        assert.strictEqual(getAbsolutePath(getRelativePath(path.join(root, 'a', 'b.ts'), root), root), path.join(root, 'a', 'b.ts'));
+    });
+
+    it('normalizes Windows separators', () => {
+        assert.strictEqual(normalizeFilePath('.\\src\\app.ts'), './src/app.ts');
+    });
+});
+
+describe('migrateNote', () => {
+    it('fills in the fields missing from legacy single-line notes', () => {
+        const note = migrateNote({ id: 'n1', line: 4, text: 'Legacy', timestamp: 1000 });
+
+        assert.deepStrictEqual(note, {
+            id: 'n1',
+            line: 4,
+            startCharacter: 0,
+            endLine: 4,
+            endCharacter: 0,
+            text: 'Legacy',
+            timestamp: 1000,
+            author: 'Unknown',
+            priority: 'medium',
+            category: 'note',
+            status: 'open',
+            replies: [],
+            anchor: undefined,
+            orphaned: undefined,
+        });
+    });
+
+    it('keeps the fields of current notes', () => {
+        const current = {
+            id: 'n2',
+            line: 1,
+            startCharacter: 2,
+            endLine: 3,
+            endCharacter: 4,
+            text: 'Current',
+            timestamp: 2000,
+            author: 'ana',
+            priority: 'high',
+            category: 'bug',
+            status: 'resolved' as const,
+            replies: [{ id: 'r1', text: 'Done', author: 'bo', timestamp: 3000 }],
+            anchor: { text: 'x', hash: 'h', before: [], after: [] },
+            orphaned: true,
+        };
+
+        assert.deepStrictEqual(migrateNote(current), current);
+    });
+});
+
+describe('note ranges', () => {
+    const ranges = [
+        { line: 0, startCharacter: 0, endLine: 0, endCharacter: 0 },
+        { line: 2, startCharacter: 4, endLine: 2, endCharacter: 10 },
+        { line: 5, startCharacter: 0, endLine: 9, endCharacter: 0 },
+        { line: 4, startCharacter: 0, endLine: 5, endCharacter: 0 },
+        { line: 5, startCharacter: 3, endLine: 7, endCharacter: 8 },
+    ];
+
+    it('formats ranges with 1-based lines and columns', () => {
+        assert.deepStrictEqual(ranges.map(formatNoteRange), [
+            'Line 1',
+            'Line 3, Col 5-11',
+            'Lines 6-9',
+            'Line 5 (whole line)',
+            'Lines 6:4-8:9',
+        ]);
+    });
+
+    it('parses formatted ranges back', () => {
+        for (const range of ranges) {
+            assert.deepStrictEqual(parseNoteRange(formatNoteRange(range)), range);
+        }
+        assert.strictEqual(parseNoteRange('Somewhere'), undefined);
+    });
+});
+
+describe('note types', () => {
+    it('lets later sources override and extend the built-in definitions', () => {
+        configureNoteTypes([
+            { priorities: [{ id: 'critical', icon: '🚨', label: 'Critical', color: '#ff0000' }] },
+            { categories: [{ id: 'bug', label: 'DEFECT' }] },
+        ]);
+
+        assert.deepStrictEqual(getPriorities().map(p => p.id), ['critical', 'high', 'medium', 'low']);
+        assert.strictEqual(getCategoryConfig('bug').label, 'DEFECT');
+        assert.strictEqual(getCategoryConfig('bug').icon, '🐛');
+
+        configureNoteTypes([]);
+    });
+
+    it('falls back for unknown ids', () => {
+        assert.strictEqual(getCategoryConfig('security').label, 'SECURITY');
+        assert.strictEqual(getPriorityConfig('urgent').label, 'urgent');
+    });
+});
@@ -2,65 +2,251 @@ import * as path from 'path';
 import * as os from 'os';
 
 /**
- * Priority levels for notes
+ * Priority id: built-in 'high' | 'medium' | 'low', or one defined by the user
  */
-export type Priority = 'high' | 'medium' | 'low';
+export type Priority = string;
 
 /**
- * Category types for notes
+ * Category id: built-in 'todo' | 'bug' | 'question' | 'idea' | 'note', or one defined by the user
  */
-export type Category = 'todo' | 'bug' | 'question' | 'idea' | 'note';
+export type Category = string;
+
+/**
+ * Review status of a note
+ */
+export type NoteStatus = 'open' | 'resolved' | 'wontfix';
 
 /**
  * Priority display configuration
  */
-export const PRIORITY_CONFIG: Record<Priority, { icon: string; label: string; color: string }> = {
-    high: { icon: '🔴', label: 'High', color: '#f44336' },
-    medium: { icon: '🟡', label: 'Medium', color: '#ff9800' },
-    low: { icon: '🟢', label: 'Low', color: '#4caf50' },
-};
+export interface PriorityDefinition {
+    id: Priority;
+    icon: string;
+    label: string;
+    color: string;
+}
+
+/**
+ * Category display configuration (themeIcon is a codicon id, color a theme color id)
+ */
+export interface CategoryDefinition {
+    id: Category;
+    icon: string;
+    label: string;
+    themeIcon: string;
+    color?: string;
+}
+
+/**
+ * User-defined categories and priorities, from settings or the notes file
+ */
+export interface NoteTypeConfig {
+    categories?: Partial<CategoryDefinition>[];
+    priorities?: Partial<PriorityDefinition>[];
+}
+
+/**
+ * Built-in priorities, highest first
+ */
+export const DEFAULT_PRIORITIES: PriorityDefinition[] = [
+    { id: 'high', icon: '🔴', label: 'High', color: '#f44336' },
+    { id: 'medium', icon: '🟡', label: 'Medium', color: '#ff9800' },
+    { id: 'low', icon: '🟢', label: 'Low', color: '#4caf50' },
+];
+
+/**
+ * Built-in categories
+ */
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+    { id: 'todo', icon: '📋', label: 'TODO', themeIcon: 'checklist' },
+    { id: 'bug', icon: '🐛', label: 'BUG', themeIcon: 'bug' },
+    { id: 'question', icon: '❓', label: 'QUESTION', themeIcon: 'question' },
+    { id: 'idea', icon: '💡', label: 'IDEA', themeIcon: 'lightbulb' },
+    { id: 'note', icon: '📝', label: 'NOTE', themeIcon: 'note' },
+];
+
+let priorities: PriorityDefinition[] = DEFAULT_PRIORITIES;
+let categories: CategoryDefinition[] = DEFAULT_CATEGORIES;
 
 /**
- * Category display configuration
+ * Merge definition lists: later lists override earlier ones by id and set the order;
+ * built-ins that are not mentioned anywhere stay available at the end
  */
-export const CATEGORY_CONFIG: Record<Category, { icon: string; label: string }> = {
-    todo: { icon: '📋', label: 'TODO' },
-    bug: { icon: '🐛', label: 'BUG' },
-    question: { icon: '❓', label: 'QUESTION' },
-    idea: { icon: '💡', label: 'IDEA' },
-    note: { icon: '📝', label: 'NOTE' },
+function mergeDefinitions<T extends { id: string }>(
+    defaults: T[],
+    lists: Partial<T>[][],
+    complete: (definition: Partial<T> & { id: string }) => T
+): T[] {
+    const merged = new Map<string, T>();
+
+    for (const list of lists) {
+        for (const definition of list) {
+            if (!definition || typeof definition.id !== 'string' || !definition.id) {
+                continue;
+            }
+            const id = definition.id;
+            const base = merged.get(id) ?? defaults.find(d => d.id === id);
+            merged.delete(id);
+            merged.set(id, complete({ ...base, ...definition, id }));
+        }
+    }
+
+    for (const definition of defaults) {
+        if (!merged.has(definition.id)) {
+            merged.set(definition.id, definition);
+        }
+    }
+
+    return Array.from(merged.values());
+}
+
+/**
+ * Configure the available categories and priorities. Later sources take precedence.
+ */
+export function configureNoteTypes(sources: NoteTypeConfig[]): void {
+    priorities = mergeDefinitions(
+        DEFAULT_PRIORITIES,
+        sources.map(source => Array.isArray(source.priorities) ? source.priorities : []),
+        definition => ({
+            id: definition.id,
+            icon: definition.icon ?? '⚪',
+            label: definition.label ?? definition.id,
+            color: definition.color ?? '#9e9e9e',
+        })
+    );
+
+    categories = mergeDefinitions(
+        DEFAULT_CATEGORIES,
+        sources.map(source => Array.isArray(source.categories) ? source.categories : []),
+        definition => ({
+            id: definition.id,
+            icon: definition.icon ?? '🏷️',
+            label: definition.label ?? definition.id.toUpperCase(),
+            themeIcon: definition.themeIcon ?? 'tag',
+            color: definition.color,
+        })
+    );
+}
+
+/**
+ * Get the configured priorities, highest first
+ */
+export function getPriorities(): PriorityDefinition[] {
+    return priorities;
+}
+
+/**
+ * Get the configured categories
+ */
+export function getCategories(): CategoryDefinition[] {
+    return categories;
+}
+
+/**
+ * Get the display configuration of a priority (falls back for unknown ids)
+ */
+export function getPriorityConfig(priority: Priority): PriorityDefinition {
+    return priorities.find(p => p.id === priority)
+        ?? { id: priority, icon: '⚪', label: priority, color: '#9e9e9e' };
+}
+
+/**
+ * Get the display configuration of a category (falls back for unknown ids)
+ */
+export function getCategoryConfig(category: Category): CategoryDefinition {
+    return categories.find(c => c.id === category)
+        ?? { id: category, icon: '🏷️', label: category.toUpperCase(), themeIcon: 'tag' };
+}
+
+/**
+ * Status display configuration
+ */
+export const STATUS_CONFIG: Record<NoteStatus, { icon: string; label: string }> = {
+    open: { icon: '🔵', label: 'Open' },
+    resolved: { icon: '✅', label: 'Resolved' },
+    wontfix: { icon: '⛔', label: "Won't Fix" },
 };
 
+/**
+ * Snapshot of the noted line used to relocate notes after external changes
+ */
+export interface NoteAnchor {
+    text: string;
+    hash: string;
+    before: string[];
+    after: string[];
+}
+
+/**
+ * Reply to a note, shown as an additional comment in its thread
+ */
+export interface NoteReply {
+    id: string;
+    text: string;
+    timestamp: number;
+    author: string;
+}
+
 /**
  * Note interface
+ * `line` is the start line of the noted range (kept under its original name for compatibility)
  */
 export interface Note {
     id: string;
     line: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
     text: string;
     timestamp: number;
     author: string;
     priority: Priority;
     category: Category;
+    status: NoteStatus;
+    replies: NoteReply[];
+    anchor?: NoteAnchor;
+    orphaned?: boolean;
 }
 
+/**
+ * Location fields of a note
+ */
+export type NoteRange = Pick<Note, 'line' | 'startCharacter' | 'endLine' | 'endCharacter'>;
+
 /**
  * Create a default note with required fields
  */
 export function createNote(
-    line: number,
+    range: NoteRange,
     text: string,
     priority: Priority = 'medium',
     category: Category = 'note'
 ): Note {
     return {
         id: generateId(),
-        line,
+        line: range.line,
+        startCharacter: range.startCharacter,
+        endLine: range.endLine,
+        endCharacter: range.endCharacter,
         text,
         timestamp: Date.now(),
         author: getCurrentUser(),
         priority,
         category,
+        status: 'open',
+        replies: [],
+    };
+}
+
+/**
+ * Create a reply by the current user
+ */
+export function createReply(text: string): NoteReply {
+    return {
+        id: generateId(),
+        text,
+        timestamp: Date.now(),
+        author: getCurrentUser(),
     };
 }
 
@@ -71,14 +257,86 @@ export function migrateNote(note: Partial<Note> & { id: string; line: number; te
     return {
         id: note.id,
         line: note.line,
+        startCharacter: note.startCharacter ?? 0,
+        endLine: note.endLine ?? note.line,
+        endCharacter: note.endCharacter ?? 0,
         text: note.text,
         timestamp: note.timestamp ?? Date.now(),
         author: note.author ?? 'Unknown',
         priority: note.priority ?? 'medium',
         category: note.category ?? 'note',
+        status: note.status ?? 'open',
+        replies: note.replies ?? [],
+        anchor: note.anchor,
+        orphaned: note.orphaned,
     };
 }
 
+/**
+ * Format a note's range for display (1-based lines and columns)
+ */
+export function formatNoteRange(note: NoteRange): string {
+    const isEmpty = note.line === note.endLine && note.startCharacter === note.endCharacter;
+
+    if (isEmpty) {
+        return `Line ${note.line + 1}`;
+    }
+
+    if (note.line === note.endLine) {
+        return `Line ${note.line + 1}, Col ${note.startCharacter + 1}-${note.endCharacter + 1}`;
+    }
+
+    // Whole-line selections read better without columns. A single whole line
+    // is told apart from an empty range on it so that parsing gives it back.
+    if (note.startCharacter === 0 && note.endCharacter === 0) {
+        return note.endLine === note.line + 1
+            ? `Line ${note.line + 1} (whole line)`
+            : `Lines ${note.line + 1}-${note.endLine}`;
+    }
+
+    return `Lines ${note.line + 1}:${note.startCharacter + 1}-${note.endLine + 1}:${note.endCharacter + 1}`;
+}
+
+/**
+ * Parse a range formatted by formatNoteRange back into a note range
+ */
+export function parseNoteRange(text: string): NoteRange | undefined {
+    let match = /^Line (\d+)$/.exec(text);
+    if (match) {
+        const line = Number(match[1]) - 1;
+        return { line, startCharacter: 0, endLine: line, endCharacter: 0 };
+    }
+
+    match = /^Line (\d+) \(whole line\)$/.exec(text);
+    if (match) {
+        const line = Number(match[1]) - 1;
+        return { line, startCharacter: 0, endLine: line + 1, endCharacter: 0 };
+    }
+
+    match = /^Line (\d+), Col (\d+)-(\d+)$/.exec(text);
+    if (match) {
+        const line = Number(match[1]) - 1;
+        return { line, startCharacter: Number(match[2]) - 1, endLine: line, endCharacter: Number(match[3]) - 1 };
+    }
+
+    match = /^Lines (\d+)-(\d+)$/.exec(text);
+    if (match) {
+        return { line: Number(match[1]) - 1, startCharacter: 0, endLine: Number(match[2]), endCharacter: 0 };
+    }
+
+    match = /^Lines (\d+):(\d+)-(\d+):(\d+)$/.exec(text);
+    if (match) {
+        return {
+            line: Number(match[1]) - 1,
+            startCharacter: Number(match[2]) - 1,
+            endLine: Number(match[3]) - 1,
+            endCharacter: Number(match[4]) - 1,
+        };
+    }
+
+    return undefined;
+}
+
 /**
  * Normalize file path separators for cross-platform compatibility
  */
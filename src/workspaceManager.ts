@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { NoteStorage } from './noteStorage';
+import { Note } from './utils';
 
 /**
  * Get the workspace root for a given URI
@@ -9,66 +12,172 @@ export function getWorkspaceRoot(uri: vscode.Uri): string | undefined {
 }
 
 /**
- * Get the workspace root for the currently active editor
+ * Get the display name of the workspace folder at a root path
  */
-export function getCurrentWorkspaceRoot(): string | undefined {
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor) {
-        // Fallback to first workspace folder
-        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    }
-
-    return getWorkspaceRoot(activeEditor.document.uri);
+export function getWorkspaceFolderName(workspaceRoot: string): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot));
+    return workspaceFolder?.name ?? path.basename(workspaceRoot);
 }
 
 /**
- * Watch for workspace changes and notify when switching between workspace folders
+ * Event emitter for changes in any workspace folder
  */
-export class WorkspaceManager {
-    private currentWorkspaceRoot: string | undefined;
-    private onChangeCallbacks: ((newRoot: string | undefined) => void)[] = [];
-
-    constructor() {
-        this.currentWorkspaceRoot = getCurrentWorkspaceRoot();
-
-        // Watch for active editor changes
-        vscode.window.onDidChangeActiveTextEditor((editor) => {
-            if (editor) {
-                const newRoot = getWorkspaceRoot(editor.document.uri);
-
-                // Only notify if workspace actually changed
-                if (newRoot !== this.currentWorkspaceRoot) {
-                    this.currentWorkspaceRoot = newRoot;
-                    this.notifyChange(newRoot);
-                }
+export type StorageChangeListener = (storage: NoteStorage) => void;
+
+/**
+ * Keeps one NoteStorage per workspace folder, in sync with folders being added and removed
+ */
+export class WorkspaceManager implements vscode.Disposable {
+    private storages: Map<string, NoteStorage> = new Map();
+    private folderDisposables: Map<string, vscode.Disposable> = new Map();
+    private changeListeners: StorageChangeListener[] = [];
+    private reloadListeners: StorageChangeListener[] = [];
+    private foldersListeners: (() => void)[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Load notes for every open workspace folder and start tracking folder changes
+     */
+    public async initialize(): Promise<void> {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            await this.addFolder(folder);
+        }
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(event => this.handleFoldersChange(event))
+        );
+    }
+
+    /**
+     * Get the storages of all workspace folders, in folder order
+     */
+    public getStorages(): NoteStorage[] {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        return folders
+            .map(folder => this.storages.get(folder.uri.toString()))
+            .filter((storage): storage is NoteStorage => storage !== undefined);
+    }
+
+    /**
+     * Get the storage of the workspace folder containing a file
+     */
+    public getStorage(uri: vscode.Uri): NoteStorage | undefined {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        return workspaceFolder ? this.storages.get(workspaceFolder.uri.toString()) : undefined;
+    }
+
+    /**
+     * Get the storage of the workspace folder at a root path
+     */
+    public getStorageForRoot(workspaceRoot: string): NoteStorage | undefined {
+        return this.getStorages().find(storage => storage.getWorkspaceRoot() === workspaceRoot);
+    }
+
+    /**
+     * Find a note by ID in any workspace folder
+     */
+    public findNote(noteId: string): { storage: NoteStorage; note: Note; filePath: string } | undefined {
+        for (const storage of this.getStorages()) {
+            const result = storage.getNoteById(noteId);
+            if (result) {
+                return { storage, ...result };
             }
-        });
+        }
+        return undefined;
     }
 
     /**
-     * Register a callback for workspace changes
+     * Register a listener for note changes in any workspace folder
      */
-    public onChange(callback: (newRoot: string | undefined) => void): vscode.Disposable {
-        this.onChangeCallbacks.push(callback);
+    public onDidChange(listener: StorageChangeListener): vscode.Disposable {
+        return this.addListener(this.changeListeners, listener);
+    }
+
+    /**
+     * Register a listener for a notes file changed outside the extension
+     */
+    public onDidReload(listener: StorageChangeListener): vscode.Disposable {
+        return this.addListener(this.reloadListeners, listener);
+    }
+
+    /**
+     * Register a listener for workspace folders being added or removed
+     */
+    public onDidChangeFolders(listener: () => void): vscode.Disposable {
+        return this.addListener(this.foldersListeners, listener);
+    }
 
+    /**
+     * Add a listener to a list, returning a disposable that removes it
+     */
+    private addListener<T>(listeners: T[], listener: T): vscode.Disposable {
+        listeners.push(listener);
         return new vscode.Disposable(() => {
-            const index = this.onChangeCallbacks.indexOf(callback);
+            const index = listeners.indexOf(listener);
             if (index > -1) {
-                this.onChangeCallbacks.splice(index, 1);
+                listeners.splice(index, 1);
             }
         });
     }
 
     /**
-     * Get the current workspace root
+     * Sync storages with added and removed folders
      */
-    public getWorkspaceRoot(): string | undefined {
-        return this.currentWorkspaceRoot;
+    private async handleFoldersChange(event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+        event.removed.forEach(folder => this.removeFolder(folder));
+        for (const folder of event.added) {
+            await this.addFolder(folder);
+        }
+
+        this.foldersListeners.forEach(listener => listener());
     }
 
-    private notifyChange(newRoot: string | undefined): void {
-        for (const callback of this.onChangeCallbacks) {
-            callback(newRoot);
+    /**
+     * Load a folder's notes and watch its notes file
+     */
+    private async addFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+        const key = folder.uri.toString();
+        if (this.storages.has(key) || folder.uri.scheme !== 'file') {
+            return;
         }
+
+        const storage = new NoteStorage(folder.uri.fsPath);
+        await storage.load();
+        this.storages.set(key, storage);
+
+        this.folderDisposables.set(key, vscode.Disposable.from(
+            storage.onDidChange(() => this.changeListeners.forEach(listener => listener(storage))),
+            storage.watchFile(() => {
+                console.log(`Review Notes: Notes changed externally in ${folder.name}`);
+                this.reloadListeners.forEach(listener => listener(storage));
+            })
+        ));
+
+        console.log(`Review Notes: Loaded notes for workspace folder ${folder.name}`);
+    }
+
+    /**
+     * Stop tracking a removed folder
+     */
+    private removeFolder(folder: vscode.WorkspaceFolder): void {
+        const key = folder.uri.toString();
+
+        this.folderDisposables.get(key)?.dispose();
+        this.folderDisposables.delete(key);
+        this.storages.get(key)?.dispose();
+        this.storages.delete(key);
+
+        console.log(`Review Notes: Removed workspace folder ${folder.name}`);
+    }
+
+    /**
+     * Dispose all storages and listeners
+     */
+    public dispose(): void {
+        this.folderDisposables.forEach(disposable => disposable.dispose());
+        this.folderDisposables.clear();
+        this.storages.forEach(storage => storage.dispose());
+        this.storages.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
     }
 }